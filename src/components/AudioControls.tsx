@@ -1,45 +1,196 @@
-
 import React from "react";
-import { Mic } from "lucide-react";
+import { Circle, Download, HardDriveDownload, Mic, Square, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { TalkMode } from "@/hooks/useAudioStreaming";
+import type { RecordingLayout } from "@/services/sessionRecorder";
+import type { StoredRecording } from "@/services/recordingStore";
 
 interface AudioControlsProps {
   isStreaming: boolean;
   micPermission: boolean | null;
   onToggleStreaming: () => void;
+  mode: TalkMode;
+  onModeChange: (mode: TalkMode) => void;
+  // Push-to-talk
+  isTransmitting: boolean;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+  // Shown in the push-to-talk hint, e.g. "Space"
+  talkKeyLabel?: string;
+  // Session recording
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  // Length of the last finished recording, null when there is none
+  recordingDurationMs: number | null;
+  recordingLayout: RecordingLayout;
+  onRecordingLayoutChange: (layout: RecordingLayout) => void;
+  onDownloadRecording: () => void;
+  onSaveRecording: () => void;
+  // Recordings kept in this browser, newest first
+  savedRecordings: StoredRecording[];
+  onDownloadSaved: (recording: StoredRecording) => void;
+  onDeleteSaved: (recording: StoredRecording) => void;
 }
 
-const AudioControls: React.FC<AudioControlsProps> = ({ 
-  isStreaming, 
-  micPermission, 
-  onToggleStreaming 
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const AudioControls: React.FC<AudioControlsProps> = ({
+  isStreaming,
+  micPermission,
+  onToggleStreaming,
+  mode,
+  onModeChange,
+  isTransmitting,
+  onTalkStart,
+  onTalkEnd,
+  talkKeyLabel = "Space",
+  isRecording,
+  onToggleRecording,
+  recordingDurationMs,
+  recordingLayout,
+  onRecordingLayoutChange,
+  onDownloadRecording,
+  onSaveRecording,
+  savedRecordings,
+  onDownloadSaved,
+  onDeleteSaved
 }) => {
+  const isPushToTalk = mode === "ptt";
+  const isActive = isPushToTalk ? isTransmitting : isStreaming;
+
+  // Holding the button talks in push-to-talk; otherwise a tap toggles the mic
+  const buttonHandlers = isPushToTalk
+    ? {
+        onPointerDown: (event: React.PointerEvent<HTMLButtonElement>) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          onTalkStart();
+        },
+        onPointerUp: onTalkEnd,
+        onPointerCancel: onTalkEnd,
+      }
+    : { onClick: onToggleStreaming };
+
+  const statusText = () => {
+    if (micPermission === false) return "Microphone access denied";
+    if (isPushToTalk) {
+      return isTransmitting ? "Release to stop talking" : `Hold to talk (${talkKeyLabel})`;
+    }
+    if (isStreaming) return mode === "vad" ? "Listening for speech, tap to stop" : "Tap to stop streaming";
+    return "Tap to start streaming";
+  };
+
   return (
     <div className="flex flex-col items-center">
+      {/* Talk mode */}
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={mode}
+        onValueChange={(value) => {
+          if (value) onModeChange(value as TalkMode);
+        }}
+      >
+        <ToggleGroupItem value="toggle">Toggle</ToggleGroupItem>
+        <ToggleGroupItem value="ptt">Push to talk</ToggleGroupItem>
+        <ToggleGroupItem value="vad">Voice activated</ToggleGroupItem>
+      </ToggleGroup>
+
       <Button
-        onClick={onToggleStreaming}
-        className={`mt-8 px-8 py-6 rounded-full w-32 h-32 flex items-center justify-center transition-all ${
-          isStreaming 
-            ? 'bg-destructive hover:bg-destructive/90' 
+        {...buttonHandlers}
+        className={`mt-8 px-8 py-6 rounded-full w-32 h-32 flex items-center justify-center transition-all touch-none ${
+          isActive
+            ? 'bg-destructive hover:bg-destructive/90'
             : 'bg-primary hover:bg-primary/90'
         }`}
       >
         <div className="relative">
-          <Mic className={`w-10 h-10 ${isStreaming ? 'animate-pulse-slow' : ''}`} />
-          {isStreaming && (
+          <Mic className={`w-10 h-10 ${isActive ? 'animate-pulse-slow' : ''}`} />
+          {isActive && (
             <span className="absolute inset-0 rounded-full border-4 border-primary-foreground/30 animate-ping"></span>
           )}
         </div>
       </Button>
-      
+
       {/* Status/instruction text */}
       <p className="text-sm text-muted-foreground mt-2">
-        {isStreaming 
-          ? "Tap to stop streaming" 
-          : micPermission === false 
-            ? "Microphone access denied" 
-            : "Tap to start streaming"}
+        {statusText()}
       </p>
+
+      {/* The mic stays warm between presses until it is turned off here */}
+      {isPushToTalk && isStreaming && (
+        <Button variant="ghost" size="sm" className="mt-1" onClick={onToggleStreaming}>
+          Turn off microphone
+        </Button>
+      )}
+
+      {/* Local recording of both directions */}
+      <div className="flex flex-col items-center gap-2 mt-6">
+        <Button variant="outline" size="sm" onClick={onToggleRecording}>
+          {isRecording ? (
+            <><Square className="w-3 h-3 mr-1 fill-current" /> Stop recording</>
+          ) : (
+            <><Circle className="w-3 h-3 mr-1 fill-destructive text-destructive" /> Record session</>
+          )}
+        </Button>
+
+        {!isRecording && recordingDurationMs !== null && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {formatDuration(recordingDurationMs)}
+            </span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={recordingLayout}
+              onValueChange={(value) => {
+                if (value) onRecordingLayoutChange(value as RecordingLayout);
+              }}
+            >
+              <ToggleGroupItem value="stereo" title="Microphone on the left, received on the right">
+                Stereo
+              </ToggleGroupItem>
+              <ToggleGroupItem value="separate" title="One file for the microphone, one for received audio">
+                Separate
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <Button variant="ghost" size="sm" onClick={onDownloadRecording} title="Download WAV">
+              <Download className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onSaveRecording} title="Keep in this browser">
+              <HardDriveDownload className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        {savedRecordings.length > 0 && (
+          <div className="w-64 rounded-md border p-2 text-sm">
+            <span className="text-xs text-muted-foreground">Saved recordings</span>
+            <ul className="max-h-40 overflow-y-auto">
+              {savedRecordings.map(saved => (
+                <li key={saved.id} className="flex items-center justify-between gap-2">
+                  <span className="text-xs tabular-nums truncate">
+                    {saved.createdAt.toLocaleString()} · {formatDuration(saved.durationMs)}
+                  </span>
+                  <div className="flex items-center shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => onDownloadSaved(saved)} title="Download WAV">
+                      <Download className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onDeleteSaved(saved)} title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
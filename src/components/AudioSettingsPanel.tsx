@@ -0,0 +1,159 @@
+import React from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AudioProcessingSettings } from "@/utils/audioUtils";
+import type { EchoStats } from "@/utils/echoCanceller";
+
+interface AudioSettingsPanelProps {
+  settings: AudioProcessingSettings;
+  onChange: (settings: AudioProcessingSettings) => void;
+  // Read back from the live track; null while the mic is off
+  applied: MediaTrackSettings | null;
+  // In-app echo suppression, independent of the browser's echo cancellation
+  echoSuppression: boolean;
+  onEchoSuppressionChange: (enabled: boolean) => void;
+  // Measured while echo suppression runs; null otherwise
+  echoStats: EchoStats | null;
+}
+
+// Common capture rates, picked with the slider
+const SAMPLE_RATES = [8000, 16000, 24000, 32000, 44100, 48000];
+
+const PROCESSING_SWITCHES: {
+  key: "echoCancellation" | "noiseSuppression" | "autoGainControl";
+  label: string;
+}[] = [
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "autoGainControl", label: "Auto gain control" },
+];
+
+const formatDb = (value: number | null): string =>
+  value === null ? "—" : `${Math.round(value)} dB`;
+
+const formatApplied = (value: boolean | number | undefined, unit = ""): string => {
+  if (value === undefined) return "—";
+  if (typeof value === "boolean") return value ? "on" : "off";
+  return `${value}${unit}`;
+};
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({
+  settings,
+  onChange,
+  applied,
+  echoSuppression,
+  onEchoSuppressionChange,
+  echoStats
+}) => {
+  const update = (change: Partial<AudioProcessingSettings>) => onChange({ ...settings, ...change });
+
+  // Shows what the browser actually did, which can differ from what was asked
+  const renderApplied = (value: boolean | number | undefined, requested: boolean | number, unit = "") => {
+    if (!applied) return null;
+    const mismatch = value !== undefined && value !== requested;
+    return (
+      <span
+        className={`text-xs tabular-nums ${mismatch ? "text-destructive" : "text-muted-foreground"}`}
+        title="Applied by the browser"
+      >
+        {formatApplied(value, unit)}
+      </span>
+    );
+  };
+
+  const sampleRateIndex = Math.max(0, SAMPLE_RATES.indexOf(settings.sampleRate));
+
+  return (
+    <div className="w-full rounded-md border p-3 text-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground flex items-center gap-1">
+          <SlidersHorizontal className="w-3 h-3" /> Audio processing
+        </span>
+        {applied && <span className="text-xs text-muted-foreground">Applied</span>}
+      </div>
+
+      {PROCESSING_SWITCHES.map(({ key, label }) => (
+        <div key={key} className="flex items-center justify-between gap-4">
+          <Label htmlFor={key} className="font-normal">{label}</Label>
+          <div className="flex items-center gap-3">
+            {renderApplied(applied?.[key], settings[key])}
+            <Switch
+              id={key}
+              checked={settings[key]}
+              onCheckedChange={(checked) => update({ [key]: checked })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-4">
+        <Label className="font-normal">Channels</Label>
+        <div className="flex items-center gap-3">
+          {renderApplied(applied?.channelCount, settings.channelCount)}
+          <Select
+            value={String(settings.channelCount)}
+            onValueChange={(value) => update({ channelCount: Number(value) })}
+          >
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Mono</SelectItem>
+              <SelectItem value="2">Stereo</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <Label className="font-normal">Sample rate</Label>
+          <div className="flex items-center gap-3">
+            {renderApplied(applied?.sampleRate, settings.sampleRate, " Hz")}
+            <span className="text-xs tabular-nums">{settings.sampleRate} Hz</span>
+          </div>
+        </div>
+        <Slider
+          min={0}
+          max={SAMPLE_RATES.length - 1}
+          step={1}
+          value={[sampleRateIndex]}
+          onValueChange={([index]) => update({ sampleRate: SAMPLE_RATES[index] })}
+        />
+      </div>
+
+      <div className="border-t pt-3 space-y-1">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="echoSuppression" className="font-normal">Echo suppression</Label>
+          <Switch
+            id="echoSuppression"
+            checked={echoSuppression}
+            onCheckedChange={onEchoSuppressionChange}
+          />
+        </div>
+        {echoSuppression && echoStats && (
+          <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+            <span title="Echo return loss: how much quieter the echo is than playback">
+              ERL {formatDb(echoStats.erlDb)}
+            </span>
+            <span title="Echo return loss enhancement: how much of the echo was removed">
+              ERLE {formatDb(echoStats.erleDb)}
+            </span>
+            <span className={echoStats.doubleTalk ? "" : "invisible"}>Double talk</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsPanel;
@@ -1,42 +1,240 @@
 
-import React from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import AudioVisualizer from "@/components/AudioVisualizer";
+import LatencyPanel from "@/components/LatencyPanel";
 import ConnectionStatus from "@/components/ConnectionStatus";
 import AudioControls from "@/components/AudioControls";
-import { useAudioStreaming } from "@/hooks/useAudioStreaming";
+import DeviceSelector from "@/components/DeviceSelector";
+import AudioSettingsPanel from "@/components/AudioSettingsPanel";
+import TranscriptPanel from "@/components/TranscriptPanel";
+import { useAudioStreaming, type TalkMode } from "@/hooks/useAudioStreaming";
+import { usePushToTalk } from "@/hooks/usePushToTalk";
+import { useAudioDevices } from "@/hooks/useAudioDevices";
+import { useToast } from "@/hooks/use-toast";
+import type { AudioTransport, TransportKind } from "@/services/transport";
+import {
+  downloadFile,
+  renderRecording,
+  type RecordingLayout,
+  type SessionRecording,
+} from "@/services/sessionRecorder";
+import RecordingStore, { type StoredRecording } from "@/services/recordingStore";
+import { defaultAudioProcessing, type AudioProcessingSettings } from "@/utils/audioUtils";
+
+const recordingStore = new RecordingStore();
 
 interface AudioStreamerProps {
   backendUrl?: string;
+  transport?: TransportKind | AudioTransport;
+  // Initial talk mode; the user can switch it in the controls
+  mode?: TalkMode;
+  // KeyboardEvent.code of the push-to-talk key
+  pushToTalkKey?: string;
+  // KeyboardEvent.code of the key that cuts server playback
+  interruptKey?: string;
 }
 
 const AudioStreamer: React.FC<AudioStreamerProps> = ({ 
-  backendUrl = "ws://localhost:8000/ws" 
+  backendUrl = "ws://localhost:8000/ws",
+  transport = "websocket",
+  mode: initialMode = "toggle",
+  pushToTalkKey = "Space",
+  interruptKey = "Escape"
 }) => {
+  const [mode, setMode] = useState<TalkMode>(initialMode);
+  const [processing, setProcessing] = useState<AudioProcessingSettings>(defaultAudioProcessing);
+  const [echoSuppression, setEchoSuppression] = useState(false);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [recordingLayout, setRecordingLayout] = useState<RecordingLayout>("stereo");
+  const [savedRecordings, setSavedRecordings] = useState<StoredRecording[]>([]);
+  const { toast } = useToast();
+  
+  // Chosen devices, falling back to the defaults while they are unplugged
+  const devices = useAudioDevices();
+  const { refresh: refreshDevices } = devices;
+  
   const {
     isStreaming,
-    isConnected,
+    connectionState,
+    rttMs,
+    latency,
+    isSpeaking,
+    isTransmitting,
     micPermission,
-    inputLevel,
-    outputLevel,
-    toggleStreaming
-  } = useAudioStreaming({ backendUrl });
+    trackSettings,
+    inputMeter,
+    outputMeter,
+    toggleStreaming,
+    startTalking,
+    stopTalking,
+    retryConnection,
+    isRecording,
+    startRecording,
+    stopRecording,
+    transcript,
+    clearTranscript,
+    interruptPlayback,
+    echoStats,
+    getInputAnalyzer,
+    getOutputAnalyzer
+  } = useAudioStreaming({
+    backendUrl,
+    transport,
+    mode,
+    inputDeviceId: devices.inputDeviceId,
+    outputDeviceId: devices.outputDeviceId,
+    processing,
+    echoSuppression
+  });
+  
+  // Barge-in from the keyboard, for when speech detection is not enough
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === interruptKey && !event.repeat) interruptPlayback();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [interruptKey, interruptPlayback]);
+  
+  // Device labels only become visible once microphone access is granted
+  useEffect(() => {
+    if (micPermission) refreshDevices();
+  }, [micPermission, refreshDevices]);
+  
+  usePushToTalk({
+    enabled: mode === "ptt",
+    keyCode: pushToTalkKey,
+    onPress: startTalking,
+    onRelease: stopTalking
+  });
+
+  const toggleRecording = async () => {
+    if (isRecording) {
+      setRecording(await stopRecording());
+    } else {
+      await startRecording();
+    }
+  };
+
+  const downloadRecording = () => {
+    if (recording) renderRecording(recording, recordingLayout).forEach(downloadFile);
+  };
+
+  const refreshSavedRecordings = useCallback(async () => {
+    try {
+      setSavedRecordings(await recordingStore.list());
+    } catch (error) {
+      console.error("Error listing saved recordings:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSavedRecordings();
+  }, [refreshSavedRecordings]);
+
+  const saveRecording = async () => {
+    if (!recording) return;
+    try {
+      await recordingStore.save({
+        createdAt: recording.startedAt,
+        durationMs: recording.durationMs,
+        files: renderRecording(recording, recordingLayout),
+      });
+      toast({ title: "Recording saved", description: "Kept in this browser's storage." });
+      refreshSavedRecordings();
+    } catch (error) {
+      console.error("Error saving recording:", error);
+      toast({
+        title: "Recording error",
+        description: "Could not save the recording in this browser.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadSavedRecording = (saved: StoredRecording) => {
+    saved.files.forEach(downloadFile);
+  };
+
+  const deleteSavedRecording = async (saved: StoredRecording) => {
+    try {
+      await recordingStore.delete(saved.id);
+      refreshSavedRecordings();
+    } catch (error) {
+      console.error("Error deleting recording:", error);
+      toast({
+        title: "Recording error",
+        description: "Could not delete the recording from this browser.",
+        variant: "destructive",
+      });
+    }
+  };
 
   return (
     <div className="flex flex-col items-center w-full max-w-md mx-auto p-6 space-y-8">
       <div className="flex flex-col items-center space-y-4 w-full">
         {/* Connection status */}
-        <ConnectionStatus isConnected={isConnected} />
+        <ConnectionStatus state={connectionState} rttMs={rttMs} onRetry={retryConnection} />
         
         {/* Audio visualizers */}
-        <AudioVisualizer inputLevel={inputLevel} outputLevel={outputLevel} />
+        <AudioVisualizer
+          inputMeter={inputMeter}
+          outputMeter={outputMeter}
+          isSpeaking={isSpeaking}
+          getInputAnalyzer={getInputAnalyzer}
+          getOutputAnalyzer={getOutputAnalyzer}
+        />
+        
+        {/* Live latency breakdown while streaming */}
+        <LatencyPanel latency={latency} />
+        
+        {/* Input and output devices */}
+        <DeviceSelector
+          inputs={devices.inputs}
+          outputs={devices.outputs}
+          inputDeviceId={devices.inputDeviceId}
+          outputDeviceId={devices.outputDeviceId}
+          onInputChange={devices.setInputDeviceId}
+          onOutputChange={devices.setOutputDeviceId}
+          supportsOutputSelection={devices.supportsOutputSelection}
+        />
+        
+        {/* Browser capture processing */}
+        <AudioSettingsPanel
+          settings={processing}
+          onChange={setProcessing}
+          applied={trackSettings}
+          echoSuppression={echoSuppression}
+          onEchoSuppressionChange={setEchoSuppression}
+          echoStats={echoStats}
+        />
         
         {/* Stream control button */}
         <AudioControls 
           isStreaming={isStreaming}
           micPermission={micPermission}
           onToggleStreaming={toggleStreaming}
+          mode={mode}
+          onModeChange={setMode}
+          isTransmitting={isTransmitting}
+          onTalkStart={startTalking}
+          onTalkEnd={stopTalking}
+          talkKeyLabel={pushToTalkKey.replace(/^Key/, "")}
+          isRecording={isRecording}
+          onToggleRecording={toggleRecording}
+          recordingDurationMs={recording?.durationMs ?? null}
+          recordingLayout={recordingLayout}
+          onRecordingLayoutChange={setRecordingLayout}
+          onDownloadRecording={downloadRecording}
+          onSaveRecording={saveRecording}
+          savedRecordings={savedRecordings}
+          onDownloadSaved={downloadSavedRecording}
+          onDeleteSaved={deleteSavedRecording}
         />
       </div>
+      
+      {/* Live transcript from the server */}
+      <TranscriptPanel segments={transcript} onClear={clearTranscript} />
     </div>
   );
 };
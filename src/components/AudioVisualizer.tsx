@@ -1,49 +1,129 @@
 
-import React from "react";
+import React, { useState } from "react";
 import { Mic, Volume2 } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import VisualizerCanvas from "@/components/VisualizerCanvas";
+import type { VisualizerMode } from "@/utils/visualizers";
+import { METER_FLOOR_DB, meterPosition, type MeterReading } from "@/utils/metering";
 
 interface AudioVisualizerProps {
-  inputLevel: number;
-  outputLevel: number;
+  inputMeter: MeterReading;
+  outputMeter: MeterReading;
+  // Voice activity on the input, when detection is enabled
+  isSpeaking?: boolean;
+  // Analyzers for the canvas modes; keep the getters stable
+  getInputAnalyzer?: () => AnalyserNode | null;
+  getOutputAnalyzer?: () => AnalyserNode | null;
 }
 
+const INPUT_COLOR = '#4CAF50';
+const OUTPUT_COLOR = '#2196F3';
+
 const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ 
-  inputLevel, 
-  outputLevel 
+  inputMeter, 
+  outputMeter,
+  isSpeaking = false,
+  getInputAnalyzer,
+  getOutputAnalyzer
 }) => {
-  // Render audio level indicators
-  const renderAudioLevel = (level: number, color: string) => {
-    const bars = 10;
-    const activeBars = Math.ceil(level * bars);
-    
-    return (
-      <div className="flex h-4 gap-0.5">
-        {Array.from({ length: bars }).map((_, i) => (
-          <div 
-            key={i}
-            className={`w-1 rounded-sm transition-all duration-100 ${i < activeBars ? 'opacity-100' : 'opacity-20'}`}
-            style={{ 
-              height: `${Math.min(100, 40 + (i * 6))}%`,
-              backgroundColor: color
-            }}
+  const [mode, setMode] = useState<VisualizerMode>("levels");
+  const canvasMode = mode !== "levels" ? mode : null;
+
+  // RMS bar with a peak-hold marker on a dBFS scale
+  const renderAudioLevel = (meter: MeterReading, color: string) => (
+    <div className="flex items-center gap-2 h-4">
+      <div className="relative flex-1 h-2 rounded-sm bg-muted overflow-hidden">
+        <div
+          className="absolute inset-y-0 left-0"
+          style={{ width: `${meterPosition(meter.rmsDb) * 100}%`, backgroundColor: color }}
+        />
+        {meter.peakHoldDb > METER_FLOOR_DB && (
+          <div
+            className="absolute inset-y-0 w-0.5 bg-foreground/70"
+            style={{ left: `calc(${meterPosition(meter.peakHoldDb) * 100}% - 1px)` }}
           />
-        ))}
+        )}
       </div>
-    );
+      <span className="w-14 text-right text-xs text-muted-foreground tabular-nums">
+        {meter.rmsDb > METER_FLOOR_DB ? `${Math.round(meter.rmsDb)} dB` : "-∞ dB"}
+      </span>
+    </div>
+  );
+
+  // Lit for a moment after any sample reaches full scale
+  const renderClipIndicator = (meter: MeterReading) => (
+    <span
+      className={`text-[10px] font-semibold px-1 rounded-sm ${
+        meter.clipping ? 'bg-destructive text-destructive-foreground' : 'text-muted-foreground/40'
+      }`}
+      title="Clipping"
+    >
+      CLIP
+    </span>
+  );
+
+  // A dBFS meter for the level mode, a canvas for the others
+  const renderDisplay = (
+    meter: MeterReading,
+    color: string,
+    getAnalyzer: (() => AnalyserNode | null) | undefined
+  ) => {
+    if (canvasMode && getAnalyzer) {
+      return (
+        <VisualizerCanvas
+          getAnalyzer={getAnalyzer}
+          mode={canvasMode}
+          color={color}
+          className="w-full h-16 rounded-sm bg-muted/40"
+        />
+      );
+    }
+    return renderAudioLevel(meter, color);
   };
 
   return (
     <div className="flex flex-col items-center gap-6 w-full">
+      {/* Visualization mode */}
+      {(getInputAnalyzer || getOutputAnalyzer) && (
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={mode}
+          onValueChange={(value) => {
+            if (value) setMode(value as VisualizerMode);
+          }}
+        >
+          <ToggleGroupItem value="levels">Levels</ToggleGroupItem>
+          <ToggleGroupItem value="waveform">Waveform</ToggleGroupItem>
+          <ToggleGroupItem value="spectrum">Spectrum</ToggleGroupItem>
+          <ToggleGroupItem value="spectrogram">Spectrogram</ToggleGroupItem>
+        </ToggleGroup>
+      )}
+
       {/* Input audio visualizer */}
       <div className="flex flex-col items-center space-y-2 w-full">
         <div className="flex justify-between w-full">
           <span className="text-sm text-muted-foreground flex items-center gap-1">
             <Mic className="w-3 h-3" /> Input
+            {isSpeaking && (
+              <span
+                className="ml-1 w-2 h-2 rounded-full animate-pulse"
+                style={{ backgroundColor: INPUT_COLOR }}
+                title="Speech detected"
+              />
+            )}
           </span>
-          <div className="h-4 w-full flex-1 mx-4">
-            {renderAudioLevel(inputLevel, '#4CAF50')}
+          <div className="w-full flex-1 mx-4">
+            {renderDisplay(inputMeter, INPUT_COLOR, getInputAnalyzer)}
           </div>
+          {renderClipIndicator(inputMeter)}
         </div>
+        {inputMeter.tooQuiet && (
+          <p className="text-xs text-muted-foreground self-start">
+            Input is very quiet. Move closer to the microphone or raise its gain.
+          </p>
+        )}
       </div>
       
       {/* Output audio visualizer */}
@@ -52,9 +132,10 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
           <span className="text-sm text-muted-foreground flex items-center gap-1">
             <Volume2 className="w-3 h-3" /> Output
           </span>
-          <div className="h-4 w-full flex-1 mx-4">
-            {renderAudioLevel(outputLevel, '#2196F3')}
+          <div className="w-full flex-1 mx-4">
+            {renderDisplay(outputMeter, OUTPUT_COLOR, getOutputAnalyzer)}
           </div>
+          {renderClipIndicator(outputMeter)}
         </div>
       </div>
     </div>
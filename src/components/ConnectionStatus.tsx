@@ -1,24 +1,100 @@
 
-import React from "react";
-import { Wifi, WifiOff } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import { Loader2, Wifi, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { CloseInfo, ConnectionState } from "@/services/transport";
 
 interface ConnectionStatusProps {
-  isConnected: boolean;
+  state: ConnectionState;
+  // Latest heartbeat round trip, if measured
+  rttMs?: number | null;
+  onRetry: () => void;
 }
 
-const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ isConnected }) => {
+const formatClose = (close: CloseInfo | null): string | null => {
+  if (!close) return null;
+  return close.reason ? `code ${close.code}: ${close.reason}` : `code ${close.code}`;
+};
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ state, rttMs = null, onRetry }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick only while a countdown is on screen
+  useEffect(() => {
+    if (state.status !== "reconnecting") return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  const renderStatus = () => {
+    switch (state.status) {
+      case "open":
+        return (
+          <>
+            <Wifi className="w-4 h-4 text-primary" />
+            <span>Connected to FastAPI server</span>
+            {rttMs !== null && (
+              <span className="tabular-nums">· {Math.round(rttMs)} ms</span>
+            )}
+          </>
+        );
+      case "connecting":
+        return (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>
+              {state.attempt > 0
+                ? `Reconnecting (attempt ${state.attempt}${state.maxAttempts > 0 ? `/${state.maxAttempts}` : ""})`
+                : "Connecting"}
+            </span>
+          </>
+        );
+      case "reconnecting": {
+        const seconds = Math.max(0, Math.ceil((state.nextRetryAt - now) / 1000));
+        return (
+          <>
+            <WifiOff className="w-4 h-4 text-muted-foreground" />
+            <span>
+              Retrying in {seconds}s (attempt {state.attempt}/{state.maxAttempts})
+            </span>
+          </>
+        );
+      }
+      case "failed":
+        return (
+          <>
+            <WifiOff className="w-4 h-4 text-destructive" />
+            <span>Connection failed after {state.attempts} {state.attempts === 1 ? "attempt" : "attempts"}</span>
+          </>
+        );
+      default:
+        return (
+          <>
+            <WifiOff className="w-4 h-4 text-muted-foreground" />
+            <span>Not connected</span>
+          </>
+        );
+    }
+  };
+
+  const lastClose = state.status === "reconnecting" || state.status === "failed"
+    ? formatClose(state.lastClose)
+    : null;
+  const canRetry = state.status === "reconnecting" || state.status === "failed";
+
   return (
-    <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
-      {isConnected ? (
-        <>
-          <Wifi className="w-4 h-4 text-primary" />
-          <span>Connected to FastAPI server</span>
-        </>
-      ) : (
-        <>
-          <WifiOff className="w-4 h-4 text-muted-foreground" />
-          <span>Not connected</span>
-        </>
+    <div className="flex flex-col items-center gap-1 text-sm text-muted-foreground mb-2">
+      <div className="flex items-center gap-2">
+        {renderStatus()}
+        {canRetry && (
+          <Button variant="outline" size="sm" className="h-7 ml-2" onClick={onRetry}>
+            Retry now
+          </Button>
+        )}
+      </div>
+      {lastClose && (
+        <span className="text-xs">Last close {lastClose}</span>
       )}
     </div>
   );
@@ -0,0 +1,82 @@
+import React from "react";
+import { Mic, Volume2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface DeviceSelectorProps {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  inputDeviceId: string;
+  outputDeviceId: string;
+  onInputChange: (deviceId: string) => void;
+  onOutputChange: (deviceId: string) => void;
+  // Output routing needs AudioContext.setSinkId
+  supportsOutputSelection: boolean;
+}
+
+// Select items cannot have an empty value, so the default device gets a stand-in
+const DEFAULT_DEVICE = "default";
+
+const DeviceSelector: React.FC<DeviceSelectorProps> = ({
+  inputs,
+  outputs,
+  inputDeviceId,
+  outputDeviceId,
+  onInputChange,
+  onOutputChange,
+  supportsOutputSelection
+}) => {
+  const renderSelect = (
+    label: string,
+    icon: React.ReactNode,
+    devices: MediaDeviceInfo[],
+    value: string,
+    onChange: (deviceId: string) => void,
+    disabled = false
+  ) => (
+    <div className="flex items-center justify-between gap-4 w-full">
+      <span className="text-sm text-muted-foreground flex items-center gap-1 shrink-0">
+        {icon} {label}
+      </span>
+      <Select
+        value={value || DEFAULT_DEVICE}
+        onValueChange={(deviceId) => onChange(deviceId === DEFAULT_DEVICE ? "" : deviceId)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 text-xs min-w-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+          {devices.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {/* Labels stay empty until microphone access is granted */}
+              {device.label || `${label} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      {renderSelect("Microphone", <Mic className="w-3 h-3" />, inputs, inputDeviceId, onInputChange)}
+      {renderSelect(
+        "Speaker",
+        <Volume2 className="w-3 h-3" />,
+        outputs,
+        outputDeviceId,
+        onOutputChange,
+        !supportsOutputSelection
+      )}
+    </div>
+  );
+};
+
+export default DeviceSelector;
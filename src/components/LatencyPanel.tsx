@@ -0,0 +1,52 @@
+import React from "react";
+import { Timer } from "lucide-react";
+import type { LatencyBreakdown } from "@/services/latencyTracker";
+
+interface LatencyPanelProps {
+  latency: LatencyBreakdown | null;
+}
+
+const formatMs = (value: number | null, estimated = false): string => {
+  if (value === null) return "—";
+  return `${estimated ? "~" : ""}${Math.round(value)} ms`;
+};
+
+const LatencyPanel: React.FC<LatencyPanelProps> = ({ latency }) => {
+  if (!latency) return null;
+
+  const stages: { label: string; value: number | null; estimated?: boolean }[] = [
+    { label: "Capture", value: latency.captureMs },
+    { label: "Queue", value: latency.queueMs },
+    { label: "Network", value: latency.networkMs, estimated: latency.networkEstimated },
+    { label: "Jitter buffer", value: latency.jitterBufferMs },
+    { label: "Output", value: latency.outputMs },
+  ];
+
+  return (
+    <div className="w-full rounded-md border p-3 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-muted-foreground flex items-center gap-1">
+          <Timer className="w-3 h-3" /> Mouth-to-ear
+        </span>
+        <span className="font-medium tabular-nums">{formatMs(latency.totalMs)}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {stages.map(({ label, value, estimated }) => (
+          <div key={label} className="flex justify-between">
+            <span>{label}</span>
+            <span className="tabular-nums">{formatMs(value, estimated)}</span>
+          </div>
+        ))}
+      </div>
+
+      {latency.networkEstimated && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Network time is estimated from heartbeats until the server echoes frame timestamps.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LatencyPanel;
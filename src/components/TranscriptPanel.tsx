@@ -0,0 +1,132 @@
+import React, { useEffect, useRef } from "react";
+import { Copy, Download, MessageSquareText, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/services/sessionRecorder";
+import {
+  exportTranscript,
+  formatSegmentTime,
+  segmentTimes,
+  transcriptTimeBase,
+  type TranscriptFormat,
+  type TranscriptSegment,
+} from "@/utils/transcript";
+
+interface TranscriptPanelProps {
+  segments: TranscriptSegment[];
+  onClear?: () => void;
+}
+
+const EXPORT_FORMATS: { format: TranscriptFormat; label: string; type: string }[] = [
+  { format: "txt", label: "Text (.txt)", type: "text/plain" },
+  { format: "srt", label: "SubRip (.srt)", type: "application/x-subrip" },
+  { format: "vtt", label: "WebVTT (.vtt)", type: "text/vtt" },
+];
+
+// Within this distance of the bottom, new segments keep the view pinned
+const STICK_TO_BOTTOM_PX = 24;
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ segments, onClear }) => {
+  const { toast } = useToast();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pinnedRef = useRef(true);
+
+  // Follow new text unless the user has scrolled up to read
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element && pinnedRef.current) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [segments]);
+
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (!element) return;
+    pinnedRef.current = element.scrollHeight - element.scrollTop - element.clientHeight < STICK_TO_BOTTOM_PX;
+  };
+
+  const hasFinal = segments.some(segment => segment.final);
+  const timeBase = transcriptTimeBase(segments);
+
+  const copyTranscript = async () => {
+    try {
+      await navigator.clipboard.writeText(exportTranscript(segments, "txt"));
+      toast({ title: "Transcript copied" });
+    } catch (error) {
+      console.error("Error copying transcript:", error);
+      toast({
+        title: "Copy failed",
+        description: "The browser did not allow clipboard access.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const download = (format: TranscriptFormat, type: string) => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadFile({
+      name: `transcript-${stamp}.${format}`,
+      blob: new Blob([exportTranscript(segments, format)], { type }),
+    });
+  };
+
+  return (
+    <div className="w-full rounded-md border p-3 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-muted-foreground flex items-center gap-1">
+          <MessageSquareText className="w-3 h-3" /> Transcript
+        </span>
+        <div className="flex items-center">
+          <Button variant="ghost" size="sm" onClick={copyTranscript} disabled={!hasFinal} title="Copy">
+            <Copy className="w-4 h-4" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={!hasFinal} title="Export">
+                <Download className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {EXPORT_FORMATS.map(({ format, label, type }) => (
+                <DropdownMenuItem key={format} onSelect={() => download(format, type)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {onClear && (
+            <Button variant="ghost" size="sm" onClick={onClear} disabled={segments.length === 0} title="Clear">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div ref={scrollRef} onScroll={handleScroll} className="max-h-64 overflow-y-auto space-y-2">
+        {segments.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Speech will be transcribed here.</p>
+        ) : (
+          segments.map(segment => (
+            <div key={segment.id} className="flex gap-2">
+              <span className="text-xs text-muted-foreground tabular-nums pt-0.5 shrink-0">
+                {formatSegmentTime(segmentTimes(segment, timeBase).startMs)}
+              </span>
+              <p className={segment.final ? "" : "text-muted-foreground italic"}>
+                {segment.speaker && <span className="font-medium">{segment.speaker}: </span>}
+                {segment.text}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef } from "react";
+import {
+  drawSpectrogram,
+  drawSpectrum,
+  drawWaveform,
+  type VisualizerMode,
+} from "@/utils/visualizers";
+
+interface VisualizerCanvasProps {
+  // Read every frame, so a swapped analyzer (e.g. new input device) is picked up
+  getAnalyzer: () => AnalyserNode | null;
+  mode: Exclude<VisualizerMode, "levels">;
+  color: string;
+  className?: string;
+}
+
+// Draws straight to the canvas on every animation frame, outside React state
+const VisualizerCanvas: React.FC<VisualizerCanvasProps> = ({
+  getAnalyzer,
+  mode,
+  color,
+  className
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Match the backing store to the displayed size for crisp lines
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(canvas.clientWidth * ratio));
+      canvas.height = Math.max(1, Math.round(canvas.clientHeight * ratio));
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    // Scrolling modes must not continue another mode's picture
+    context.clearRect(0, 0, canvas.width, canvas.height);
+
+    let frame: number;
+    let lastTime = performance.now();
+    const render = (time: number) => {
+      const elapsedMs = time - lastTime;
+      lastTime = time;
+
+      const analyzer = getAnalyzer();
+      if (!analyzer) {
+        context.clearRect(0, 0, canvas.width, canvas.height);
+      } else if (mode === "waveform") {
+        drawWaveform(context, analyzer, color, elapsedMs);
+      } else if (mode === "spectrum") {
+        drawSpectrum(context, analyzer, color);
+      } else {
+        drawSpectrogram(context, analyzer, color);
+      }
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, [getAnalyzer, mode, color]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+export default VisualizerCanvas;
@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from "react";
+
+// An empty device ID stands for the system default device
+export interface AudioDevicePreferences {
+  inputDeviceId: string;
+  outputDeviceId: string;
+}
+
+const STORAGE_KEY = "audio-stream-helper.devices";
+
+const loadPreferences = (): AudioDevicePreferences => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return {
+      inputDeviceId: typeof saved.inputDeviceId === "string" ? saved.inputDeviceId : "",
+      outputDeviceId: typeof saved.outputDeviceId === "string" ? saved.outputDeviceId : "",
+    };
+  } catch {
+    return { inputDeviceId: "", outputDeviceId: "" };
+  }
+};
+
+// Whether the browser can route Web Audio output to a chosen device
+export const supportsOutputSelection = (): boolean =>
+  typeof AudioContext !== "undefined" && "setSinkId" in AudioContext.prototype;
+
+// Lists audio devices, remembers the chosen ones, and falls back to the
+// default device while a chosen one is unplugged
+export const useAudioDevices = () => {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+  const [preferences, setPreferences] = useState<AudioDevicePreferences>(loadPreferences);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      // "default" and "communications" are aliases; the empty ID covers them
+      const isAlias = (device: MediaDeviceInfo) =>
+        device.deviceId === "" || device.deviceId === "default" || device.deviceId === "communications";
+      setInputs(devices.filter(device => device.kind === "audioinput" && !isAlias(device)));
+      setOutputs(devices.filter(device => device.kind === "audiooutput" && !isAlias(device)));
+    } catch (error) {
+      console.error("Could not list audio devices:", error);
+    }
+  }, []);
+
+  // Re-list on hot-plug; call refresh() once labels become visible
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener?.("devicechange", refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.("devicechange", refresh);
+  }, [refresh]);
+
+  const updatePreferences = useCallback((update: Partial<AudioDevicePreferences>) => {
+    setPreferences(current => {
+      const next = { ...current, ...update };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Private browsing can refuse storage; the choice still holds for this session
+      }
+      return next;
+    });
+  }, []);
+
+  const setInputDeviceId = useCallback((inputDeviceId: string) => {
+    updatePreferences({ inputDeviceId });
+  }, [updatePreferences]);
+
+  const setOutputDeviceId = useCallback((outputDeviceId: string) => {
+    updatePreferences({ outputDeviceId });
+  }, [updatePreferences]);
+
+  // The saved choice is kept while its device is away, so it comes back on replug
+  const isPresent = (devices: MediaDeviceInfo[], deviceId: string) =>
+    devices.some(device => device.deviceId === deviceId);
+  const inputDeviceId = isPresent(inputs, preferences.inputDeviceId) ? preferences.inputDeviceId : "";
+  const outputDeviceId = isPresent(outputs, preferences.outputDeviceId) ? preferences.outputDeviceId : "";
+
+  return {
+    inputs,
+    outputs,
+    inputDeviceId,
+    outputDeviceId,
+    preferences,
+    setInputDeviceId,
+    setOutputDeviceId,
+    supportsOutputSelection: supportsOutputSelection(),
+    refresh
+  };
+};
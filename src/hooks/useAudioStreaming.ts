@@ -1,69 +1,325 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { 
-  defaultAudioConstraints, 
+  getMicrophoneConstraints,
+  defaultAudioProcessing,
+  type AudioProcessingSettings,
   connectStreamToAnalyzer,
-  createAudioProcessor
+  createAudioProcessor,
+  createCaptureNode,
+  createEchoCancellerNode,
+  supportsAudioWorklet,
+  getCaptureCapabilities,
+  getFrameSize,
+  createAnalyzer,
+  DEFAULT_CAPTURE_FRAME_SIZE
 } from "@/utils/audioUtils";
+import { Resampler } from "@/utils/resampler";
+import { VoiceActivityDetector, type VadOptions } from "@/utils/vad";
+import type { CaptureFrameMessage, EchoStatsMessage } from "@/worklets/messages";
+import type { EchoStats } from "@/utils/echoCanceller";
 import WebSocketService from "@/services/websocketService";
+import WebRTCTransport from "@/services/webrtcTransport";
+import type { AudioTransport, ConnectionState, TransportKind } from "@/services/transport";
+import PlaybackEngine, { type PlaybackEngineOptions } from "@/services/playbackEngine";
+import { supportsOpusEncoding } from "@/services/audioEncoder";
+import { supportsOpusDecoding } from "@/services/audioDecoder";
+import type { AudioEncoding, AudioFormat } from "@/services/controlProtocol";
+import { SmoothedValue, sumLatency, type LatencyBreakdown } from "@/services/latencyTracker";
+import SessionRecorder, { type SessionRecording } from "@/services/sessionRecorder";
+import { applyTranscriptMessage, type TranscriptSegment } from "@/utils/transcript";
+import { LevelMeter, SILENT_READING, rmsOf, toDbfs, type MeterReading } from "@/utils/metering";
 
 interface UseAudioStreamingProps {
   backendUrl: string;
+  // A built-in transport kind, or any AudioTransport implementation (keep the
+  // instance stable). "webrtc" sends media tracks and uses the WebSocket only for signaling
+  transport?: TransportKind | AudioTransport;
+  // Samples per captured frame when the server does not negotiate a format
+  frameSize?: number;
+  // Preferred uplink encoding; Opus falls back to PCM without WebCodecs
+  encoding?: AudioEncoding;
+  opusBitrate?: number;
+  // Format of server audio and jitter buffer depth for playback
+  playback?: PlaybackEngineOptions;
+  // When captured audio is sent: always, only while talking, or on detected speech
+  mode?: TalkMode;
+  // Detector thresholds for the "vad" mode and for barge-in
+  vad?: VadOptions;
+  // Cut server playback when speech starts, or on startTalking in "ptt". Speech
+  // only interrupts with echo cancellation or suppression on, so the playback's
+  // own echo cannot cut it off
+  bargeIn?: boolean;
+  // Remove the echo of server playback from the mic in the capture path, for
+  // speakers without browser echo cancellation. Not applied to WebRTC tracks
+  echoSuppression?: boolean;
+  // While the VAD holds audio back, send the background level periodically
+  comfortNoise?: boolean;
+  // Devices to capture from and play to; empty for the system default.
+  // Changing them while streaming swaps the device without a reconnect
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+  // Browser capture processing; changes apply live to the microphone track
+  processing?: AudioProcessingSettings;
 }
 
-export const useAudioStreaming = ({ backendUrl }: UseAudioStreamingProps) => {
+// "toggle" streams while the mic is on, "ptt" only while the talk control is
+// held, and "vad" only while speech is detected
+export type TalkMode = "toggle" | "ptt" | "vad";
+
+// How often the background level is reported during silence
+const COMFORT_NOISE_INTERVAL_MS = 1000;
+// How long to ignore server audio after an interrupt when the RTT is unknown
+const DEFAULT_DISCARD_MS = 200;
+// Drops arrive once per frame while disconnected; the count is published at this rate
+const DROP_REPORT_INTERVAL_MS = 1000;
+// With echo suppression, how far speech must be above the echo left after
+// cancellation to barge in
+const BARGE_IN_MARGIN_DB = 6;
+
+// Meters measure every animation frame but re-render only at this interval
+const METER_PUBLISH_INTERVAL_MS = 100;
+
+// Scratch buffer for meter readings, which happen one at a time
+let meterSamples = new Float32Array(0);
+
+// Measure the latest time-domain samples of an analyzer
+const readMeter = (
+  analyzer: AnalyserNode,
+  meter: LevelMeter,
+  nowMs: number,
+  expectSignal: boolean
+): MeterReading => {
+  if (meterSamples.length !== analyzer.fftSize) meterSamples = new Float32Array(analyzer.fftSize);
+  analyzer.getFloatTimeDomainData(meterSamples);
+  return meter.update(meterSamples, nowMs, expectSignal);
+};
+
+// RMS level of an analyzer's latest samples, in dBFS
+// Whether two readings draw the same meter, to the dB it is shown at
+const sameMeterDisplay = (a: MeterReading, b: MeterReading): boolean =>
+  Math.round(a.rmsDb) === Math.round(b.rmsDb) &&
+  Math.round(a.peakHoldDb) === Math.round(b.peakHoldDb) &&
+  a.clipping === b.clipping &&
+  a.tooQuiet === b.tooQuiet;
+
+const analyzerLevelDb = (analyzer: AnalyserNode): number => {
+  if (meterSamples.length !== analyzer.fftSize) meterSamples = new Float32Array(analyzer.fftSize);
+  analyzer.getFloatTimeDomainData(meterSamples);
+  return toDbfs(rmsOf(meterSamples));
+};
+
+// Stop a microphone stream without triggering the unplug fallback
+const stopMicrophoneStream = (stream: MediaStream) => {
+  stream.getTracks().forEach(track => {
+    track.onended = null;
+    track.stop();
+  });
+};
+
+export const useAudioStreaming = ({ 
+  backendUrl, 
+  transport = "websocket",
+  frameSize = DEFAULT_CAPTURE_FRAME_SIZE,
+  encoding = "pcm_s16le",
+  opusBitrate,
+  playback,
+  mode = "toggle",
+  vad,
+  comfortNoise = false,
+  bargeIn = true,
+  echoSuppression = false,
+  inputDeviceId = "",
+  outputDeviceId = "",
+  processing = defaultAudioProcessing
+}: UseAudioStreamingProps) => {
   const { toast } = useToast();
   
   // Stream and connection state
   const [isStreaming, setIsStreaming] = useState(false);
+  // Current microphone stream; replaced when the input device changes
+  const [micStream, setMicStream] = useState<MediaStream | null>(null);
+  // What the browser actually applied to the microphone track
+  const [trackSettings, setTrackSettings] = useState<MediaTrackSettings | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState>({ status: "idle" });
+  // Heartbeat round trip to the server, when the transport measures one
+  const [rttMs, setRttMs] = useState<number | null>(null);
+  // Mouth-to-ear estimate, refreshed while streaming
+  const [latency, setLatency] = useState<LatencyBreakdown | null>(null);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  // A push-to-talk utterance is open
+  const [isTransmitting, setIsTransmitting] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
+  const [echoStats, setEchoStats] = useState<EchoStats | null>(null);
+  // The same readings for the capture path, which cannot wait for a render
+  const echoStatsRef = useRef<EchoStats | null>(null);
   const [micPermission, setMicPermission] = useState<boolean | null>(null);
+  const [audioFormat, setAudioFormat] = useState<AudioFormat | null>(null);
+  // Captured frames the transport dropped instead of sending
+  const [droppedFrames, setDroppedFrames] = useState(0);
+  const droppedFramesRef = useRef(0);
+  const dropReportTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
-  // Audio levels for visualization
-  const [inputLevel, setInputLevel] = useState(0);
-  const [outputLevel, setOutputLevel] = useState(0);
+  // Level meters for visualization
+  const [inputMeter, setInputMeter] = useState<MeterReading>(SILENT_READING);
+  const [outputMeter, setOutputMeter] = useState<MeterReading>(SILENT_READING);
+  const inputLevelMeterRef = useRef(new LevelMeter());
+  const outputLevelMeterRef = useRef(new LevelMeter());
   
   // Refs for persistent values between renders
   const localStreamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const inputAnalyzerRef = useRef<AnalyserNode | null>(null);
   const outputAnalyzerRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const webSocketRef = useRef<WebSocketService | null>(null);
+  const processorRef = useRef<AudioWorkletNode | ScriptProcessorNode | null>(null);
+  const transportRef = useRef<AudioTransport | null>(null);
+  const remoteSourceRef = useRef<{ source: MediaStreamAudioSourceNode; element: HTMLAudioElement } | null>(null);
+  const playbackEngineRef = useRef<PlaybackEngine | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const echoCancellerRef = useRef<AudioWorkletNode | null>(null);
+  // Wall-clock origin for transcript segments the server sends without times
+  const transcriptOriginRef = useRef<number | null>(null);
+  const rttRef = useRef<number | null>(null);
+  // Server audio arriving before this time was sent ahead of an interrupt
+  const discardAudioUntilRef = useRef(0);
+  // Delay from the first sample of a frame to its arrival on the main thread
+  const captureDelayRef = useRef(new SmoothedValue());
+  // Push-to-talk: the talk control is held, and the open utterance if any
+  const pressedRef = useRef(false);
+  const transmittingRef = useRef(false);
+  const utteranceRef = useRef<string | null>(null);
+  const startingRef = useRef(false);
+  
+  // Latest options, read when the connection is set up without forcing a reconnect
+  const optionsRef = useRef({ frameSize, encoding, opusBitrate, playback, vad, comfortNoise, bargeIn, mode, inputDeviceId, outputDeviceId, processing });
+  optionsRef.current = { frameSize, encoding, opusBitrate, playback, vad, comfortNoise, bargeIn, mode, inputDeviceId, outputDeviceId, processing };
+
+  // Route all playback to the chosen output where the browser allows it
+  const applyOutputDevice = (audioContext: AudioContext, deviceId: string) => {
+    if (!audioContext.setSinkId) return;
+    audioContext.setSinkId(deviceId).catch((error) => {
+      console.warn("Could not switch output device, using the default:", error);
+      audioContext.setSinkId?.("").catch(() => {});
+    });
+  };
 
-  // Setup WebSocket connection
+  // Create the audio context and the playback chain on first use
+  const ensureAudioGraph = useCallback((): AudioContext => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext({
+        latencyHint: 'interactive', // Low latency mode
+        sampleRate: 48000
+      });
+      applyOutputDevice(audioContextRef.current, optionsRef.current.outputDeviceId);
+    }
+    const audioContext = audioContextRef.current;
+    
+    if (!outputAnalyzerRef.current) {
+      const outputAnalyzer = createAnalyzer(audioContext);
+      outputAnalyzer.connect(audioContext.destination);
+      outputAnalyzerRef.current = outputAnalyzer;
+    }
+    
+    if (!playbackEngineRef.current) {
+      const engine = new PlaybackEngine(audioContext, optionsRef.current.playback);
+      engine.output.connect(outputAnalyzerRef.current);
+      playbackEngineRef.current = engine;
+    }
+    
+    return audioContext;
+  }, []);
+
+  // Build one of the built-in transports for the current audio context
+  const createTransport = useCallback(async (
+    kind: TransportKind,
+    audioContext: AudioContext
+  ): Promise<AudioTransport> => {
+    const options = optionsRef.current;
+    
+    if (kind === "webrtc") {
+      // The socket only carries signaling and control, so there is nothing to negotiate
+      return new WebRTCTransport(new WebSocketService(backendUrl), {
+        maxBitrate: options.opusBitrate,
+      });
+    }
+    
+    // Advertise what the capture path can produce, preferred encoding first.
+    // Opus is used in both directions, so both halves of WebCodecs are needed
+    const opusSupported = options.encoding === "opus" &&
+      await supportsOpusEncoding() && await supportsOpusDecoding();
+    
+    const encodings: AudioEncoding[] = ["pcm_s16le", "pcm_f32le"];
+    if (opusSupported) {
+      encodings.unshift("opus");
+    } else if (options.encoding === "pcm_f32le") {
+      encodings.reverse();
+    }
+    
+    // Old servers that skip the handshake get raw PCM16
+    return new WebSocketService(backendUrl, {
+      capabilities: getCaptureCapabilities(audioContext.sampleRate, encodings),
+      fallbackFormat: {
+        encoding: "pcm_s16le",
+        sampleRate: audioContext.sampleRate,
+        channels: 1,
+        frameDurationMs: options.frameSize / audioContext.sampleRate * 1000,
+      },
+      opusBitrate: options.opusBitrate,
+    });
+  }, [backendUrl]);
+
+  // Setup transport connection
   useEffect(() => {
-    const setupWebSocketConnection = async () => {
+    let cancelled = false;
+    // Control listeners add up on a transport that outlives this effect
+    const unsubscribers: (() => void)[] = [];
+    
+    const setupTransportConnection = async () => {
       try {
-        // Only create a new WebSocket connection if one doesn't exist
-        if (!webSocketRef.current) {
-          console.log("Setting up new WebSocket connection");
+        // Only create a new connection if one doesn't exist
+        if (!transportRef.current) {
+          console.log("Setting up new transport connection");
           
-          // Create new audio context if not exists
-          if (!audioContextRef.current) {
-            audioContextRef.current = new AudioContext({
-              latencyHint: 'interactive', // Low latency mode
-              sampleRate: 48000
-            });
-          }
+          // Create new audio context and playback chain if not exists
+          const audioContext = ensureAudioGraph();
+          
+          const audioTransport = typeof transport === "string"
+            ? await createTransport(transport, audioContext)
+            : transport;
           
-          const webSocketService = new WebSocketService(backendUrl);
-          webSocketRef.current = webSocketService;
+          // The effect may have been cleaned up while the transport was being built
+          if (cancelled || transportRef.current) {
+            if (audioTransport !== transport) audioTransport.disconnect();
+            return;
+          }
+          transportRef.current = audioTransport;
           
           // Register event handlers
-          webSocketService.onConnect(() => {
+          audioTransport.onConnect(() => {
+            const format = audioTransport.format;
+            if (format && playbackEngineRef.current) {
+              // A new session starts a new server timeline; a resumed one carries on
+              playbackEngineRef.current.setFormat(format.sampleRate, format.channels);
+              if (!audioTransport.resumed) playbackEngineRef.current.resetTimeline();
+            }
+            setAudioFormat(format);
             setIsConnected(true);
-            console.log("WebSocket connected successfully");
+            console.log(`Connected over ${audioTransport.kind} successfully`);
             toast({
               title: "Connected to server",
               description: "Audio streaming connection established."
             });
           });
           
-          webSocketService.onDisconnect(() => {
+          audioTransport.onDisconnect(() => {
             setIsConnected(false);
-            console.log("WebSocket disconnected");
+            setRttMs(null);
+            rttRef.current = null;
+            console.log(`Disconnected from ${audioTransport.kind} transport`);
             toast({
               title: "Disconnected from server",
               description: "The connection to the audio server was lost.",
@@ -71,46 +327,85 @@ export const useAudioStreaming = ({ backendUrl }: UseAudioStreamingProps) => {
             });
           });
           
-          webSocketService.onMessage((audioData) => {
-            console.log("Audio data received from server, size:", audioData.byteLength);
-            if (audioContextRef.current) {
-              try {
-                // Process received audio data
-                const audioContext = audioContextRef.current;
-                
-                // Convert ArrayBuffer to AudioBuffer and play it
-                audioContext.decodeAudioData(audioData, (buffer) => {
-                  // Create a buffer source for playback
-                  const source = audioContext.createBufferSource();
-                  source.buffer = buffer;
-                  
-                  // Connect to output analyzer for visualization if available
-                  if (outputAnalyzerRef.current) {
-                    source.connect(outputAnalyzerRef.current);
-                    outputAnalyzerRef.current.connect(audioContext.destination);
-                  } else {
-                    // Connect directly to destination if no analyzer
-                    source.connect(audioContext.destination);
-                  }
-                  
-                  // Start playing the audio immediately
-                  source.start(0);
-                  
-                  console.log("Playing received audio data");
-                }).catch(err => {
-                  console.error("Error decoding audio data:", err);
-                });
-              } catch (error) {
-                console.error("Error processing audio response:", error);
-              }
+          audioTransport.onStateChange((state) => {
+            setConnectionState(state);
+            if (state.status === "failed") {
+              toast({
+                title: "Connection failed",
+                description: `Gave up reconnecting after ${state.attempts} attempts.`,
+                variant: "destructive",
+              });
             }
           });
           
-          // Connect to WebSocket server
-          await webSocketService.connect();
+          audioTransport.onRtt?.((rtt) => {
+            rttRef.current = rtt;
+            setRttMs(rtt);
+          });
+          
+          audioTransport.onFrameDrop?.((event) => {
+            droppedFramesRef.current += event.frames;
+            dropReportTimerRef.current ??= setTimeout(() => {
+              dropReportTimerRef.current = null;
+              setDroppedFrames(droppedFramesRef.current);
+            }, DROP_REPORT_INTERVAL_MS);
+          });
+          
+          audioTransport.onAudioFrame((frame) => {
+            if (performance.now() < discardAudioUntilRef.current) return;
+            // Decoded frames are scheduled back to back by the playback engine
+            const engine = playbackEngineRef.current;
+            if (engine) {
+              engine.setFormat(frame.sampleRate, frame.channels);
+              engine.enqueue(frame.samples, frame.timestampMs);
+            }
+          });
+          
+          // Track-based transports deliver server audio as a media stream
+          audioTransport.onRemoteTrack?.((_track, stream) => {
+            remoteSourceRef.current?.source.disconnect();
+            
+            // Chrome only feeds remote streams into Web Audio while a media element plays them
+            const element = new Audio();
+            element.muted = true;
+            element.srcObject = stream;
+            element.play().catch(() => {});
+            
+            const source = audioContext.createMediaStreamSource(stream);
+            source.connect(outputAnalyzerRef.current);
+            remoteSourceRef.current = { source, element };
+          });
+          
+          unsubscribers.push(audioTransport.onControl("session", (message) => {
+            console.log("Server session started:", message.sessionId);
+          }));
+          
+          unsubscribers.push(audioTransport.onControl("transcript", (message) => {
+            const now = performance.now();
+            transcriptOriginRef.current ??= now;
+            const receivedMs = now - transcriptOriginRef.current;
+            setTranscript(segments => applyTranscriptMessage(segments, message, receivedMs));
+          }));
+          
+          unsubscribers.push(audioTransport.onControl("error", (message) => {
+            console.error("Server reported an error:", message.code, message.message);
+            toast({
+              title: "Server error",
+              description: message.message,
+              variant: "destructive",
+            });
+          }));
+          
+          audioTransport.onProtocolError((error) => {
+            // Malformed control messages and audio frames are dropped by the transport
+            console.warn("Invalid message from server:", error);
+          });
+          
+          // Connect to the server
+          await audioTransport.connect();
         }
       } catch (error) {
-        console.error("Error setting up WebSocket:", error);
+        console.error("Error setting up transport:", error);
         toast({
           title: "Connection error",
           description: "Could not establish connection to the audio server.",
@@ -119,27 +414,51 @@ export const useAudioStreaming = ({ backendUrl }: UseAudioStreamingProps) => {
       }
     };
 
-    setupWebSocketConnection();
+    setupTransportConnection();
     
-    // Cleanup only when component unmounts
+    // Cleanup only when component unmounts or the transport changes
     return () => {
-      if (webSocketRef.current) {
-        console.log("Cleaning up WebSocket connection on unmount");
-        webSocketRef.current.disconnect();
-        webSocketRef.current = null;
+      cancelled = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (dropReportTimerRef.current) {
+        clearTimeout(dropReportTimerRef.current);
+        dropReportTimerRef.current = null;
+      }
+      if (remoteSourceRef.current) {
+        remoteSourceRef.current.source.disconnect();
+        remoteSourceRef.current.element.srcObject = null;
+        remoteSourceRef.current = null;
+      }
+      if (transportRef.current) {
+        console.log("Cleaning up transport connection");
+        transportRef.current.disconnect();
+        transportRef.current = null;
       }
     };
-  }, [backendUrl, toast]);
+  }, [transport, toast, ensureAudioGraph, createTransport]);
 
   // Monitor audio levels for visualization
   const startAudioLevelMonitoring = () => {
+    let lastPublishedAt = 0;
+    const publish = (reading: MeterReading) => (previous: MeterReading) =>
+      sameMeterDisplay(previous, reading) ? previous : reading;
+
     const updateLevels = () => {
+      const now = performance.now();
+      // Peaks and clipping are held by the meters, so skipped frames lose nothing
+      const due = now - lastPublishedAt >= METER_PUBLISH_INTERVAL_MS;
+      if (due) lastPublishedAt = now;
+
       if (inputAnalyzerRef.current) {
-        setInputLevel(getAudioLevel(inputAnalyzerRef.current));
+        // Silence is expected while push-to-talk is released
+        const expectSpeech = optionsRef.current.mode !== "ptt" || transmittingRef.current;
+        const reading = readMeter(inputAnalyzerRef.current, inputLevelMeterRef.current, now, expectSpeech);
+        if (due) setInputMeter(publish(reading));
       }
       
       if (outputAnalyzerRef.current) {
-        setOutputLevel(getAudioLevel(outputAnalyzerRef.current));
+        const reading = readMeter(outputAnalyzerRef.current, outputLevelMeterRef.current, now, false);
+        if (due) setOutputMeter(publish(reading));
       }
       
       animationFrameRef.current = requestAnimationFrame(updateLevels);
@@ -148,6 +467,107 @@ export const useAudioStreaming = ({ backendUrl }: UseAudioStreamingProps) => {
     animationFrameRef.current = requestAnimationFrame(updateLevels);
   };
 
+  // Open the microphone on a device, falling back to the default if it is gone
+  const openMicrophone = async (deviceId: string): Promise<MediaStream> => {
+    const { processing } = optionsRef.current;
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: getMicrophoneConstraints(deviceId, processing),
+        video: false
+      });
+    } catch (error) {
+      const name = (error as DOMException).name;
+      if (!deviceId || (name !== "OverconstrainedError" && name !== "NotFoundError")) throw error;
+      console.warn(`Input device ${deviceId} is unavailable, using the default`);
+      return navigator.mediaDevices.getUserMedia({
+        audio: getMicrophoneConstraints("", processing),
+        video: false
+      });
+    }
+  };
+
+  // Make a stream the live microphone: level meter, capture and WebRTC uplink
+  // all follow micStream, so the session carries on with the new device
+  const attachMicrophone = (stream: MediaStream, audioContext: AudioContext) => {
+    inputSourceRef.current?.disconnect();
+    if (localStreamRef.current) stopMicrophoneStream(localStreamRef.current);
+    localStreamRef.current = stream;
+    
+    const { source, analyzer } = connectStreamToAnalyzer(stream, audioContext);
+    inputSourceRef.current = source;
+    inputAnalyzerRef.current = analyzer;
+    
+    // An unplugged device ends its track; carry on with the default device
+    const track = stream.getAudioTracks()[0];
+    if (track) {
+      track.onended = () => {
+        console.warn("Input device disconnected, switching to the default");
+        switchInputDeviceRef.current("");
+      };
+    }
+    setMicStream(stream);
+    setTrackSettings(track?.getSettings() ?? null);
+  };
+
+  // Reopen the microphone on another device while streaming
+  const switchInputDevice = async (deviceId: string) => {
+    const audioContext = audioContextRef.current;
+    if (!localStreamRef.current || !audioContext) return;
+    
+    try {
+      const stream = await openMicrophone(deviceId);
+      // Streaming may have stopped while the device was opening
+      if (!localStreamRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      attachMicrophone(stream, audioContext);
+      console.log("Switched input device to", stream.getAudioTracks()[0]?.label);
+    } catch (error) {
+      console.error("Could not switch input device:", error);
+      toast({
+        title: "Input device error",
+        description: "Could not open the selected microphone.",
+        variant: "destructive",
+      });
+    }
+  };
+  const switchInputDeviceRef = useRef(switchInputDevice);
+  switchInputDeviceRef.current = switchInputDevice;
+
+  // Follow input device changes while streaming
+  useEffect(() => {
+    switchInputDeviceRef.current(inputDeviceId);
+  }, [inputDeviceId]);
+
+  // Apply processing changes to the live track; browsers may ignore some of
+  // them, so the applied settings are read back rather than assumed
+  useEffect(() => {
+    const track = localStreamRef.current?.getAudioTracks()[0];
+    if (!track) return;
+    
+    // No deviceId here: the track keeps its device
+    track.applyConstraints(getMicrophoneConstraints("", processing))
+      .catch((error) => {
+        console.warn("Could not apply audio constraints:", error);
+        toast({
+          title: "Audio settings",
+          description: "The microphone does not support these settings.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (track.readyState === "live") setTrackSettings(track.getSettings());
+      });
+  }, [processing, toast]);
+
+  // Follow output device changes, including fallback after an unplug
+  useEffect(() => {
+    if (audioContextRef.current) applyOutputDevice(audioContextRef.current, outputDeviceId);
+    // A different speaker means a different echo path to learn
+    echoCancellerRef.current?.port.postMessage({ type: "reset" });
+  }, [outputDeviceId]);
+
   // Clean up resources when component unmounts or streaming stops
   const cleanupStreamingResources = () => {
     console.log("Cleaning up streaming resources");
@@ -165,111 +585,424 @@ export const useAudioStreaming = ({ backendUrl }: UseAudioStreamingProps) => {
     }
     
     // Stop local stream tracks
+    inputSourceRef.current?.disconnect();
+    inputSourceRef.current = null;
     if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
+      stopMicrophoneStream(localStreamRef.current);
       localStreamRef.current = null;
     }
+    setMicStream(null);
+    setTrackSettings(null);
     
     // Reset state
     setIsStreaming(false);
-    setInputLevel(0);
-    setOutputLevel(0);
+    inputLevelMeterRef.current.reset();
+    outputLevelMeterRef.current.reset();
+    setInputMeter(SILENT_READING);
+    setOutputMeter(SILENT_READING);
   };
 
-  // Function to get audio level from analyzer
-  const getAudioLevel = (analyzer: AnalyserNode): number => {
-    const dataArray = new Uint8Array(analyzer.frequencyBinCount);
-    analyzer.getByteFrequencyData(dataArray);
+  // Frame size follows the negotiated format so the first frame is already correct
+  const captureFrameSize = audioFormat ? getFrameSize(audioFormat) : null;
+  const captureSampleRate = audioFormat ? audioFormat.sampleRate : null;
+
+  // Barge-in: cut server playback and tell the server where it was cut.
+  // Returns whether an interrupt was sent
+  const interruptPlayback = useCallback((): boolean => {
+    const audioTransport = transportRef.current;
+    const engine = playbackEngineRef.current;
+    if (!audioTransport) return false;
     
-    // Calculate average level
-    let sum = 0;
-    for (let i = 0; i < dataArray.length; i++) {
-      sum += dataArray[i];
+    // Track-based transports play through WebRTC, out of reach of the engine
+    if (!audioTransport.format || !engine) {
+      audioTransport.sendControl({ type: "interrupt" });
+      return true;
     }
+    if (!engine.isPlaying) return false;
     
-    // Normalize to 0-1 range
-    return sum / (dataArray.length * 255);
-  };
+    const { positionMs, flushedMs } = engine.flush();
+    // Frames already in flight belong to the interrupted response
+    discardAudioUntilRef.current = performance.now() + (rttRef.current ?? DEFAULT_DISCARD_MS);
+    audioTransport.sendControl({
+      type: "interrupt",
+      ...(positionMs !== null && { positionMs: Math.round(positionMs) }),
+    });
+    console.log(`Interrupted playback at ${positionMs} ms, dropped ${Math.round(flushedMs)} ms`);
+    return true;
+  }, []);
 
-  // Set up audio processor when streaming starts
+  // Set up audio processor once streaming starts and the format is agreed.
+  // Track-based transports have no frame format; the mic track is sent as is
   useEffect(() => {
-    if (isStreaming && audioContextRef.current && localStreamRef.current && webSocketRef.current) {
-      console.log("Setting up audio processor for streaming");
-      const processor = createAudioProcessor(audioContextRef.current, localStreamRef.current);
+    if (!isStreaming || !captureFrameSize || !audioContextRef.current || !micStream || !transportRef.current) {
+      return;
+    }
+
+    const audioContext = audioContextRef.current;
+    const stream = micStream;
+    let cancelled = false;
+
+    // Voice activity gating in the "vad" mode; in "toggle" it only drives barge-in
+    const { vad: vadOptions, comfortNoise: sendComfortNoise, bargeIn: interruptOnSpeech } = optionsRef.current;
+    const detector = mode === "vad" || (mode === "toggle" && interruptOnSpeech)
+      ? new VoiceActivityDetector(captureSampleRate, vadOptions)
+      : null;
+    let lastComfortNoiseAt = 0;
+    // Set once this utterance has cut playback
+    let bargedIn = false;
+
+    // Speech picked up by the mic may be the server's own playback coming back
+    // through the speakers, so it only counts as a barge-in with echo control.
+    // The in-app canceller leaves a residual echo, estimated from the measured
+    // return loss; until it has measured, only double talk counts
+    const isBargeIn = (energyDb: number) => {
+      if (stream.getAudioTracks()[0]?.getSettings().echoCancellation) return true;
+      if (!echoCancellerRef.current) return false;
+      const stats = echoStatsRef.current;
+      const output = outputAnalyzerRef.current;
+      if (!stats || stats.erlDb === null || !output) return stats?.doubleTalk ?? false;
+      const residualEchoDb = analyzerLevelDb(output) - stats.erlDb - (stats.erleDb ?? 0);
+      return energyDb > residualEchoDb + BARGE_IN_MARGIN_DB;
+    };
+
+    // captureTimeMs is the capture time of the first sample on the context clock
+    const sendCaptured = (samples: Float32Array, captureTimeMs: number) => {
+      const audioTransport = transportRef.current;
+      if (!audioTransport) return;
+      // The mic stays warm between presses; only held audio goes out
+      if (mode === "ptt") {
+        if (transmittingRef.current) audioTransport.sendAudioData(samples, captureTimeMs);
+        return;
+      }
+      if (!detector) {
+        audioTransport.sendAudioData(samples, captureTimeMs);
+        return;
+      }
+
+      const result = detector.process(samples);
+      // Checked on every frame of speech, since the onset may be masked by playback
+      if (result.event === "speech_start") bargedIn = false;
+      if (result.speaking && interruptOnSpeech && !bargedIn && isBargeIn(result.features.energyDb)) {
+        bargedIn = interruptPlayback();
+      }
+      if (mode === "toggle") {
+        audioTransport.sendAudioData(samples, captureTimeMs);
+        if (result.event) setIsSpeaking(result.event === "speech_start");
+        return;
+      }
+      
+      if (result.event === "speech_start") {
+        audioTransport.sendControl({ type: "speech_start" });
+        setIsSpeaking(true);
+      }
+      // Released frames are contiguous and end with this one, so their capture
+      // times count back from it
+      const releasedMs = result.frames.reduce((sum, frame) => sum + frame.length, 0) / captureSampleRate * 1000;
+      let frameTimeMs = captureTimeMs + samples.length / captureSampleRate * 1000 - releasedMs;
+      result.frames.forEach(frame => {
+        audioTransport.sendAudioData(frame, frameTimeMs);
+        frameTimeMs += frame.length / captureSampleRate * 1000;
+      });
+      if (result.event === "speech_end") {
+        audioTransport.sendControl({ type: "speech_end" });
+        setIsSpeaking(false);
+      }
+
+      if (!result.speaking && sendComfortNoise) {
+        const now = performance.now();
+        if (result.event === "speech_end" || now - lastComfortNoiseAt >= COMFORT_NOISE_INTERVAL_MS) {
+          audioTransport.sendControl({
+            type: "comfort_noise",
+            noiseLevelDb: Math.round(result.features.noiseFloorDb),
+          });
+          lastComfortNoiseAt = now;
+        }
+      }
+    };
+
+    const setupCapture = async () => {
+      if (supportsAudioWorklet(audioContext)) {
+        console.log("Setting up AudioWorklet capture, frame size:", captureFrameSize, "rate:", captureSampleRate);
+        const source = audioContext.createMediaStreamSource(stream);
+        
+        // The playback mix is the echo reference, tapped at the output analyzer
+        let captureInput: AudioNode = source;
+        if (echoSuppression && outputAnalyzerRef.current) {
+          const canceller = await createEchoCancellerNode(audioContext, source, outputAnalyzerRef.current);
+          if (cancelled) {
+            canceller.disconnect();
+            outputAnalyzerRef.current.disconnect(canceller);
+            source.disconnect();
+            return;
+          }
+          canceller.port.onmessage = (event: MessageEvent<EchoStatsMessage>) => {
+            const { erlDb, erleDb, doubleTalk } = event.data;
+            echoStatsRef.current = { erlDb, erleDb, doubleTalk };
+            setEchoStats(echoStatsRef.current);
+          };
+          echoCancellerRef.current = canceller;
+          captureInput = canceller;
+        }
+        
+        const node = await createCaptureNode(audioContext, captureInput, {
+          frameSize: captureFrameSize,
+          targetSampleRate: captureSampleRate
+        });
+        if (cancelled) {
+          node.disconnect();
+          source.disconnect();
+          return;
+        }
+        processorRef.current = node;
+        
+        // Keep the node pulled by the graph; it only ever outputs silence
+        node.connect(audioContext.destination);
+        
+        // Frames are batched on the audio thread, so this only runs once per frame.
+        // The transport decides whether to queue, hold or drop them while disconnected
+        node.port.onmessage = (event: MessageEvent<CaptureFrameMessage>) => {
+          captureDelayRef.current.add((audioContext.currentTime - event.data.captureTime) * 1000);
+          sendCaptured(event.data.samples, event.data.captureTime * 1000);
+        };
+        return;
+      }
+
+      console.warn("AudioWorklet unavailable, falling back to ScriptProcessorNode");
+      if (echoSuppression) {
+        console.warn("Echo suppression needs AudioWorklet and is disabled");
+      }
+      const processor = createAudioProcessor(audioContext, stream);
+      const resampler = new Resampler(audioContext.sampleRate, captureSampleRate);
       processorRef.current = processor;
       
       // Connect processor to destination to keep it running
-      processor.connect(audioContextRef.current.destination);
+      processor.connect(audioContext.destination);
       
       // Process audio data and send it over WebSocket
       processor.onaudioprocess = (e) => {
-        if (webSocketRef.current && webSocketRef.current.connected) {
-          console.log("Processing audio buffer");
-          const inputData = e.inputBuffer.getChannelData(0);
-          webSocketRef.current.sendAudioData(inputData);
-        }
+        captureDelayRef.current.add(e.inputBuffer.duration * 1000);
+        const inputData = e.inputBuffer.getChannelData(0);
+        // The detector can hold frames back, so they must not share the resampler's buffer
+        const captureTimeMs = (audioContext.currentTime - e.inputBuffer.duration) * 1000;
+        sendCaptured(resampler.process(inputData).slice(), captureTimeMs);
       };
-    }
+    };
+
+    setupCapture().catch((error) => {
+      console.error("Error setting up audio capture:", error);
+      toast({
+        title: "Capture error",
+        description: "Could not start the audio capture pipeline.",
+        variant: "destructive",
+      });
+    });
     
     return () => {
-      if (processorRef.current && audioContextRef.current) {
+      cancelled = true;
+      // Close an open utterance so the server is not left waiting
+      if (detector?.isSpeaking) {
+        transportRef.current?.sendControl({ type: "speech_end" });
+      }
+      setIsSpeaking(false);
+      if (processorRef.current) {
+        if ("port" in processorRef.current) {
+          processorRef.current.port.onmessage = null;
+        }
         processorRef.current.disconnect();
         processorRef.current = null;
       }
+      if (echoCancellerRef.current) {
+        const canceller = echoCancellerRef.current;
+        canceller.port.onmessage = null;
+        canceller.disconnect();
+        // Drop the reference tap too, or the playback mix keeps the node running
+        try {
+          outputAnalyzerRef.current?.disconnect(canceller);
+        } catch {
+          // Already disconnected
+        }
+        echoCancellerRef.current = null;
+      }
+      echoStatsRef.current = null;
+      setEchoStats(null);
     };
+  }, [isStreaming, micStream, captureFrameSize, captureSampleRate, mode, echoSuppression, toast, interruptPlayback]);
+
+  const reportTrackError = useCallback((error: unknown) => {
+    console.error("Error switching the microphone track:", error);
+    toast({
+      title: "Microphone error",
+      description: "Could not change the audio sent to the server.",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Track-based transports are gated by swapping the outgoing track
+  useEffect(() => {
+    const track = micStream?.getAudioTracks()[0];
+    if (!isStreaming || !track) return;
+    transportRef.current?.setMicrophoneTrack?.(mode !== "ptt" || isTransmitting ? track : null)
+      .catch(reportTrackError);
+  }, [isStreaming, micStream, mode, isTransmitting, reportTrackError]);
+
+  // Feed the current microphone into the recorder, following device switches
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    const source = inputSourceRef.current;
+    if (!isRecording || !recorder || !source) return;
+    recorder.connectCapture(source);
+    return () => recorder.disconnectCapture(source);
+  }, [isRecording, micStream]);
+
+  // Refresh the latency breakdown while streaming
+  useEffect(() => {
+    if (!isStreaming) {
+      setLatency(null);
+      captureDelayRef.current.reset();
+      return;
+    }
+
+    const updateLatency = () => {
+      const audioContext = audioContextRef.current;
+      const audioTransport = transportRef.current;
+      if (!audioContext || !audioTransport) return;
+
+      // Chrome reports the input device latency in the track settings
+      const track = localStreamRef.current?.getAudioTracks()[0];
+      const settings = track?.getSettings() as (MediaTrackSettings & { latency?: number }) | undefined;
+      const captureDelay = captureDelayRef.current.value;
+      const captureMs = captureDelay !== null ? captureDelay + (settings?.latency ?? 0) * 1000 : null;
+
+      const transportLatency = audioTransport.getLatency?.();
+      const roundTripMs = transportLatency?.roundTripMs ?? null;
+      const engine = playbackEngineRef.current;
+
+      const stages = {
+        captureMs,
+        queueMs: transportLatency?.queueMs ?? null,
+        // Without matched frames, fall back to the heartbeat round trip
+        networkMs: roundTripMs ?? rttRef.current,
+        networkEstimated: roundTripMs === null && rttRef.current !== null,
+        // Track-based transports buffer inside WebRTC, out of reach
+        jitterBufferMs: audioTransport.format && engine ? engine.getStats().depthMs : null,
+        outputMs: ((audioContext.outputLatency ?? 0) + audioContext.baseLatency) * 1000,
+      };
+      setLatency({ ...stages, totalMs: sumLatency(stages) });
+    };
+
+    updateLatency();
+    const interval = setInterval(updateLatency, 500);
+    return () => clearInterval(interval);
   }, [isStreaming]);
 
-  // Request microphone access and start streaming
-  const toggleStreaming = async () => {
+  // Reconnect immediately instead of waiting out the backoff
+  const retryConnection = useCallback(() => {
+    transportRef.current?.retryNow();
+  }, []);
+
+  const clearTranscript = useCallback(() => {
+    transcriptOriginRef.current = null;
+    setTranscript([]);
+  }, []);
+
+  // Analyzers for visualizers that draw outside React; they change with the
+  // input device and the audio graph, so read them on every frame
+  const getInputAnalyzer = useCallback(() => inputAnalyzerRef.current, []);
+  const getOutputAnalyzer = useCallback(() => outputAnalyzerRef.current, []);
+
+  // Record both directions locally until stopRecording
+  const startRecording = useCallback(async () => {
+    if (recorderRef.current) return;
+    
+    const audioContext = ensureAudioGraph();
+    const recorder = new SessionRecorder(audioContext);
+    recorderRef.current = recorder;
+    try {
+      await recorder.start(outputAnalyzerRef.current);
+      recorder.onLimit(() => {
+        toast({
+          title: "Recording limit reached",
+          description: "Stop the recording to keep what has been captured so far.",
+        });
+      });
+      setIsRecording(true);
+    } catch (error) {
+      recorderRef.current = null;
+      console.error("Error starting recording:", error);
+      toast({
+        title: "Recording error",
+        description: "Could not start the session recorder.",
+        variant: "destructive",
+      });
+    }
+  }, [ensureAudioGraph, toast]);
+
+  const stopRecording = useCallback(async (): Promise<SessionRecording | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder) return null;
+    
+    recorderRef.current = null;
+    setIsRecording(false);
+    return recorder.stop();
+  }, []);
+
+  // Close the open push-to-talk utterance, if any
+  const stopTalking = useCallback(() => {
+    pressedRef.current = false;
+    const utteranceId = utteranceRef.current;
+    if (!utteranceId) return;
+    
+    utteranceRef.current = null;
+    transmittingRef.current = false;
+    setIsTransmitting(false);
+    transportRef.current?.sendControl({ type: "utterance_end", utteranceId });
+  }, []);
+
+  // Leaving push-to-talk ends a held utterance
+  useEffect(() => {
+    if (mode !== "ptt") stopTalking();
+  }, [mode, stopTalking]);
+
+  const stopStreaming = () => {
+    console.log("Stopping streaming");
+    stopTalking();
+    transportRef.current?.sendControl({ type: "stop", reason: "user" });
+    transportRef.current?.setMicrophoneTrack?.(null).catch(reportTrackError);
+    cleanupStreamingResources();
+  };
+
+  // Request microphone access and start streaming; resolves to whether it worked
+  const startStreaming = async (): Promise<boolean> => {
+    if (startingRef.current) return false;
+    startingRef.current = true;
+    
     try {
-      // If already streaming, stop it
-      if (isStreaming) {
-        console.log("Stopping streaming");
-        cleanupStreamingResources();
-        return;
-      }
-      
       console.log("Starting streaming");
       
       // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: defaultAudioConstraints,
-        video: false
-      });
-      
-      localStreamRef.current = stream;
+      const stream = await openMicrophone(optionsRef.current.inputDeviceId);
       setMicPermission(true);
       
-      // Create audio context if it doesn't exist
-      if (!audioContextRef.current) {
-        audioContextRef.current = new AudioContext({
-          latencyHint: 'interactive', // Low latency mode
-          sampleRate: 48000
-        });
-      }
+      // Create audio context and playback chain if they don't exist
+      const audioContext = ensureAudioGraph();
       
       // Connect input stream to analyzer
-      const { analyzer } = connectStreamToAnalyzer(stream, audioContextRef.current);
-      inputAnalyzerRef.current = analyzer;
+      attachMicrophone(stream, audioContext);
       
-      // Create output analyzer if it doesn't exist
-      if (!outputAnalyzerRef.current && audioContextRef.current) {
-        const outputAnalyzer = audioContextRef.current.createAnalyser();
-        outputAnalyzer.fftSize = 256;
-        outputAnalyzer.smoothingTimeConstant = 0.5;
-        outputAnalyzerRef.current = outputAnalyzer;
-      }
-      
-      // Start streaming
+      // Start streaming; track-based transports get the mic track once this renders
       setIsStreaming(true);
+      transportRef.current?.sendControl({ type: "start" });
       
       // Start audio level monitoring
       startAudioLevelMonitoring();
       
       toast({
         title: "Streaming started",
-        description: "Microphone is now streaming to the server.",
+        description: mode === "ptt"
+          ? "Microphone is ready. Hold to talk."
+          : "Microphone is now streaming to the server.",
       });
+      return true;
       
     } catch (error) {
       console.error("Error accessing microphone:", error);
@@ -290,7 +1023,34 @@ export const useAudioStreaming = ({ backendUrl }: UseAudioStreamingProps) => {
       }
       
       cleanupStreamingResources();
+      return false;
+    } finally {
+      startingRef.current = false;
+    }
+  };
+
+  const toggleStreaming = async () => {
+    if (isStreaming) {
+      stopStreaming();
+      return;
     }
+    await startStreaming();
+  };
+
+  // Open a push-to-talk utterance, warming up the mic on the first press
+  const startTalking = async () => {
+    pressedRef.current = true;
+    if (!localStreamRef.current && !(await startStreaming())) return;
+    
+    // Released while the mic was starting, or already talking
+    if (!pressedRef.current || utteranceRef.current) return;
+    
+    if (optionsRef.current.bargeIn) interruptPlayback();
+    const utteranceId = crypto.randomUUID();
+    utteranceRef.current = utteranceId;
+    transmittingRef.current = true;
+    setIsTransmitting(true);
+    transportRef.current?.sendControl({ type: "utterance_start", utteranceId });
   };
 
   // Clean up on component unmount
@@ -299,11 +1059,20 @@ export const useAudioStreaming = ({ backendUrl }: UseAudioStreamingProps) => {
       cleanupStreamingResources();
       
       // Only disconnect and close on full component unmount
-      if (webSocketRef.current) {
-        webSocketRef.current.disconnect();
-        webSocketRef.current = null;
+      if (transportRef.current) {
+        transportRef.current.disconnect();
+        transportRef.current = null;
       }
       
+      if (playbackEngineRef.current) {
+        playbackEngineRef.current.dispose();
+        playbackEngineRef.current = null;
+      }
+      outputAnalyzerRef.current = null;
+      
+      recorderRef.current?.dispose();
+      recorderRef.current = null;
+      
       if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
         audioContextRef.current.close();
         audioContextRef.current = null;
@@ -314,9 +1083,29 @@ export const useAudioStreaming = ({ backendUrl }: UseAudioStreamingProps) => {
   return {
     isStreaming,
     isConnected,
+    connectionState,
+    rttMs,
+    latency,
+    isSpeaking,
+    isTransmitting,
     micPermission,
-    inputLevel,
-    outputLevel,
-    toggleStreaming
+    trackSettings,
+    audioFormat,
+    droppedFrames,
+    inputMeter,
+    outputMeter,
+    toggleStreaming,
+    startTalking,
+    stopTalking,
+    retryConnection,
+    isRecording,
+    startRecording,
+    stopRecording,
+    transcript,
+    clearTranscript,
+    interruptPlayback,
+    echoStats,
+    getInputAnalyzer,
+    getOutputAnalyzer
   };
 };
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from "react";
+
+interface UsePushToTalkProps {
+  enabled: boolean;
+  // KeyboardEvent.code of the talk key
+  keyCode?: string;
+  onPress: () => void;
+  onRelease: () => void;
+}
+
+// Whether the key press belongs to a text field rather than to push-to-talk
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+};
+
+// Hold a key anywhere on the page to talk
+export const usePushToTalk = ({
+  enabled,
+  keyCode = "Space",
+  onPress,
+  onRelease
+}: UsePushToTalkProps) => {
+  // Latest callbacks, so the listeners are not re-registered on every render
+  const callbacksRef = useRef({ onPress, onRelease });
+  callbacksRef.current = { onPress, onRelease };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let pressed = false;
+
+    const release = () => {
+      if (!pressed) return;
+      pressed = false;
+      callbacksRef.current.onRelease();
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== keyCode || isEditableTarget(event.target)) return;
+      // Keep space from scrolling the page or clicking a focused button
+      event.preventDefault();
+      if (event.repeat || pressed) return;
+      pressed = true;
+      callbacksRef.current.onPress();
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== keyCode) return;
+      event.preventDefault();
+      release();
+    };
+
+    // The key up never arrives if the window loses focus mid-press
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", release);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", release);
+      release();
+    };
+  }, [enabled, keyCode]);
+};
@@ -0,0 +1,138 @@
+/**
+ * Streaming decoders that turn binary server messages into Float32 frames
+ */
+
+import { int16ToFloat32 } from "@/utils/audioUtils";
+import type { AudioEncoding, AudioFormat } from "@/services/controlProtocol";
+
+// Decoded interleaved PCM ready for playback
+export interface DecodedAudioFrame {
+  samples: Float32Array;
+  sampleRate: number;
+  channels: number;
+  // Media timestamp of the first sample
+  timestampMs: number;
+}
+
+export interface AudioFrameDecoder {
+  readonly encoding: AudioEncoding;
+  // Decode one payload, with its header already removed. Decoded frames are
+  // delivered through the onFrame callback
+  decode(payload: Uint8Array, timestampMs?: number): void;
+  close(): void;
+}
+
+type FrameCallback = (frame: DecodedAudioFrame) => void;
+
+// Raw PCM pass-through; without header timestamps they are derived from the sample count
+export class PcmDecoder implements AudioFrameDecoder {
+  private timestampMs = 0;
+
+  constructor(
+    readonly encoding: "pcm_s16le" | "pcm_f32le",
+    private format: AudioFormat,
+    private onFrame: FrameCallback
+  ) {}
+
+  decode(payload: Uint8Array, timestampMs?: number): void {
+    const bytesPerSample = this.encoding === "pcm_f32le" ? 4 : 2;
+    if (payload.byteLength % bytesPerSample !== 0) {
+      console.warn("Dropping PCM message with a partial sample, size:", payload.byteLength);
+      return;
+    }
+
+    const { buffer, byteOffset, byteLength } = payload;
+    const samples = this.encoding === "pcm_f32le"
+      ? new Float32Array(buffer, byteOffset, byteLength / 4)
+      : int16ToFloat32(new Int16Array(buffer, byteOffset, byteLength / 2));
+    const { sampleRate, channels } = this.format;
+
+    if (timestampMs !== undefined) this.timestampMs = timestampMs;
+    this.onFrame({ samples, sampleRate, channels, timestampMs: this.timestampMs });
+    this.timestampMs += samples.length / channels / sampleRate * 1000;
+  }
+
+  close(): void {}
+}
+
+// Opus packets decoded through the WebCodecs AudioDecoder
+export class OpusDecoder implements AudioFrameDecoder {
+  readonly encoding = "opus";
+  private decoder: AudioDecoder;
+
+  constructor(format: AudioFormat, private onFrame: FrameCallback) {
+    this.decoder = new AudioDecoder({
+      output: (data) => this.handleData(data),
+      error: (error) => console.error("Opus decoder error:", error),
+    });
+    this.decoder.configure({
+      codec: "opus",
+      sampleRate: format.sampleRate,
+      numberOfChannels: format.channels,
+    });
+  }
+
+  // Opus only travels in headed frames, so the timestamp is always known
+  decode(payload: Uint8Array, timestampMs: number = 0): void {
+    if (this.decoder.state !== "configured") return;
+
+    this.decoder.decode(new EncodedAudioChunk({
+      type: "key",
+      timestamp: timestampMs * 1000,
+      data: payload,
+    }));
+  }
+
+  close(): void {
+    if (this.decoder.state !== "closed") {
+      this.decoder.close();
+    }
+  }
+
+  private handleData(data: AudioData): void {
+    const { numberOfFrames: frames, numberOfChannels: channels } = data;
+    const samples = new Float32Array(frames * channels);
+    const plane = new Float32Array(frames);
+
+    // Planar copies are the most widely supported conversion; interleave here
+    for (let c = 0; c < channels; c++) {
+      data.copyTo(plane, { planeIndex: c, format: "f32-planar" });
+      for (let i = 0; i < frames; i++) {
+        samples[i * channels + c] = plane[i];
+      }
+    }
+
+    this.onFrame({
+      samples,
+      sampleRate: data.sampleRate,
+      channels,
+      timestampMs: data.timestamp / 1000,
+    });
+    data.close();
+  }
+}
+
+// Whether this browser can decode Opus through WebCodecs
+export async function supportsOpusDecoding(sampleRate: number = 48000): Promise<boolean> {
+  if (typeof AudioDecoder === "undefined" || typeof EncodedAudioChunk === "undefined") {
+    return false;
+  }
+  try {
+    const { supported } = await AudioDecoder.isConfigSupported({
+      codec: "opus",
+      sampleRate,
+      numberOfChannels: 1,
+    });
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+// Pick the decoder for a negotiated format
+export function createAudioDecoder(format: AudioFormat, onFrame: FrameCallback): AudioFrameDecoder {
+  if (format.encoding === "opus") {
+    return new OpusDecoder(format, onFrame);
+  }
+  return new PcmDecoder(format.encoding, format, onFrame);
+}
@@ -0,0 +1,162 @@
+/**
+ * Encoders that turn captured Float32 frames into binary WebSocket messages
+ */
+
+import { float32ToInt16 } from "@/utils/audioUtils";
+import type { AudioEncoding, AudioFormat } from "@/services/controlProtocol";
+
+// One encoded frame; the transport adds the header before sending it
+export interface EncodedAudioFrame {
+  payload: Uint8Array;
+  // Samples per channel
+  frames: number;
+  // Capture time of the first sample, on the AudioContext clock
+  timestampMs: number;
+  // First frame since the encoder was created
+  first: boolean;
+}
+
+export interface AudioFrameEncoder {
+  readonly encoding: AudioEncoding;
+  // Encoded frames are delivered through the onPacket callback. Without a
+  // capture time the frame is taken to follow the previous one
+  encode(samples: Float32Array, captureTimeMs?: number): void;
+  close(): void;
+}
+
+type PacketCallback = (frame: EncodedAudioFrame) => void;
+
+export const DEFAULT_OPUS_BITRATE = 32000;
+
+// Raw PCM, either converted to 16-bit or sent as Float32
+export class PcmEncoder implements AudioFrameEncoder {
+  private nextTimestampMs = 0;
+  private firstPacket = true;
+
+  constructor(
+    readonly encoding: "pcm_s16le" | "pcm_f32le",
+    private onPacket: PacketCallback,
+    private sampleRate: number,
+    private channels: number = 1
+  ) {}
+
+  encode(samples: Float32Array, captureTimeMs?: number): void {
+    const converted = this.encoding === "pcm_f32le" ? samples.slice() : float32ToInt16(samples);
+    const frames = samples.length / this.channels;
+    const timestampMs = captureTimeMs ?? this.nextTimestampMs;
+
+    this.onPacket({
+      payload: new Uint8Array(converted.buffer),
+      frames,
+      timestampMs,
+      first: this.firstPacket,
+    });
+    this.nextTimestampMs = timestampMs + frames / this.sampleRate * 1000;
+    this.firstPacket = false;
+  }
+
+  close(): void {}
+}
+
+// Opus through the WebCodecs AudioEncoder
+export class OpusEncoder implements AudioFrameEncoder {
+  readonly encoding = "opus";
+  private encoder: AudioEncoder;
+  private nextTimestampUs = 0;
+  private firstPacket = true;
+
+  constructor(
+    private format: AudioFormat,
+    private onPacket: PacketCallback,
+    bitrate: number = DEFAULT_OPUS_BITRATE
+  ) {
+    this.encoder = new AudioEncoder({
+      output: (chunk) => this.handleChunk(chunk),
+      error: (error) => console.error("Opus encoder error:", error),
+    });
+    this.encoder.configure({
+      codec: "opus",
+      sampleRate: format.sampleRate,
+      numberOfChannels: format.channels,
+      bitrate,
+      opus: { frameDuration: format.frameDurationMs * 1000 },
+    });
+  }
+
+  // Chunks come back stamped with the capture time of the audio they hold
+  encode(samples: Float32Array, captureTimeMs?: number): void {
+    if (this.encoder.state !== "configured") return;
+
+    const frames = samples.length / this.format.channels;
+    const timestampUs = captureTimeMs !== undefined ? Math.round(captureTimeMs * 1000) : this.nextTimestampUs;
+    const data = new AudioData({
+      format: "f32",
+      sampleRate: this.format.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: this.format.channels,
+      timestamp: timestampUs,
+      data: samples,
+    });
+    this.nextTimestampUs = timestampUs + frames / this.format.sampleRate * 1e6;
+
+    this.encoder.encode(data);
+    data.close();
+  }
+
+  close(): void {
+    if (this.encoder.state !== "closed") {
+      this.encoder.close();
+    }
+  }
+
+  private handleChunk(chunk: EncodedAudioChunk): void {
+    const payload = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(payload);
+
+    const durationUs = chunk.duration ?? this.format.frameDurationMs * 1000;
+    this.onPacket({
+      payload,
+      frames: Math.round(durationUs * this.format.sampleRate / 1e6),
+      timestampMs: chunk.timestamp / 1000,
+      first: this.firstPacket,
+    });
+    this.firstPacket = false;
+  }
+}
+
+// Whether this browser can encode Opus through WebCodecs
+export async function supportsOpusEncoding(sampleRate: number = 48000): Promise<boolean> {
+  if (typeof AudioEncoder === "undefined" || typeof AudioData === "undefined") {
+    return false;
+  }
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: "opus",
+      sampleRate,
+      numberOfChannels: 1,
+    });
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+// Pick the encoder for a negotiated format
+export function createAudioEncoder(
+  format: AudioFormat | null,
+  onPacket: PacketCallback,
+  options: { bitrate?: number } = {}
+): AudioFrameEncoder {
+  if (format?.encoding === "opus") {
+    if (typeof AudioEncoder !== "undefined") {
+      return new OpusEncoder(format, onPacket, options.bitrate);
+    }
+    console.warn("WebCodecs is unavailable, falling back to 16-bit PCM");
+  }
+  return new PcmEncoder(
+    format?.encoding === "pcm_f32le" ? "pcm_f32le" : "pcm_s16le",
+    onPacket,
+    format?.sampleRate ?? 48000,
+    format?.channels ?? 1
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Header carried by every binary audio message once the control protocol is
+ * negotiated, in both directions
+ *
+ * Layout (little-endian, 20 bytes, followed by the encoded payload):
+ *   u8  version
+ *   u8  flags
+ *   u8  encoding, as an index into AUDIO_ENCODINGS
+ *   u8  channels
+ *   u32 sequence number, counting from 0 per session
+ *   u32 sample rate
+ *   u32 media timestamp of the first sample in milliseconds (wraps); uplink
+ *       frames use the capturing AudioContext's clock
+ *   u16 number of samples per channel in the payload
+ *   u16 echoed uplink timestamp, its low 16 bits; only meaningful on downlink
+ *       frames with FRAME_FLAG_ECHO, zero otherwise
+ *
+ * The header is a multiple of 4 bytes so PCM payloads can be viewed in place.
+ */
+
+import { AUDIO_ENCODINGS, type AudioEncoding } from "@/services/controlProtocol";
+
+export const AUDIO_FRAME_VERSION = 1;
+export const AUDIO_FRAME_HEADER_BYTES = 20;
+
+// Set on the first frame after the encoder was (re)configured
+export const FRAME_FLAG_FIRST = 0x01;
+// Set on frames sent again after a session was resumed
+export const FRAME_FLAG_REPLAY = 0x02;
+// Set on downlink frames that answer an uplink frame, named in the echo field
+export const FRAME_FLAG_ECHO = 0x04;
+
+export interface AudioFrameHeader {
+  flags: number;
+  encoding: AudioEncoding;
+  channels: number;
+  seq: number;
+  sampleRate: number;
+  timestampMs: number;
+  frames: number;
+  // Uplink timestamp a downlink frame answers; written truncated by
+  // echoTimestamp() and read only when FRAME_FLAG_ECHO is set
+  echoMs?: number;
+}
+
+export interface AudioFramePacket extends AudioFrameHeader {
+  payload: Uint8Array;
+}
+
+export type AudioFrameReadResult =
+  | { ok: true; frame: AudioFramePacket }
+  | { ok: false; error: string };
+
+// The echo field keeps the low 16 bits of an uplink timestamp
+export function echoTimestamp(timestampMs: number): number {
+  return Math.round(timestampMs) & 0xffff;
+}
+
+export function writeAudioFrame(header: AudioFrameHeader, payload: Uint8Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(AUDIO_FRAME_HEADER_BYTES + payload.byteLength);
+  const view = new DataView(buffer);
+  view.setUint8(0, AUDIO_FRAME_VERSION);
+  view.setUint8(1, header.flags);
+  view.setUint8(2, AUDIO_ENCODINGS.indexOf(header.encoding));
+  view.setUint8(3, header.channels);
+  view.setUint32(4, header.seq >>> 0, true);
+  view.setUint32(8, header.sampleRate, true);
+  view.setUint32(12, Math.round(header.timestampMs) >>> 0, true);
+  view.setUint16(16, header.frames, true);
+  view.setUint16(18, echoTimestamp(header.echoMs ?? 0), true);
+  new Uint8Array(buffer, AUDIO_FRAME_HEADER_BYTES).set(payload);
+  return buffer;
+}
+
+// Parse and validate a binary message received from the server
+export function readAudioFrame(buffer: ArrayBuffer): AudioFrameReadResult {
+  if (buffer.byteLength < AUDIO_FRAME_HEADER_BYTES) {
+    return { ok: false, error: `Frame of ${buffer.byteLength} bytes is shorter than the header` };
+  }
+
+  const view = new DataView(buffer);
+  const version = view.getUint8(0);
+  if (version !== AUDIO_FRAME_VERSION) {
+    return { ok: false, error: `Unsupported frame version ${version}` };
+  }
+
+  const encoding = AUDIO_ENCODINGS[view.getUint8(2)];
+  if (!encoding) {
+    return { ok: false, error: `Unknown encoding ${view.getUint8(2)}` };
+  }
+
+  const channels = view.getUint8(3);
+  const sampleRate = view.getUint32(8, true);
+  if (channels === 0 || sampleRate === 0) {
+    return { ok: false, error: "Frame has no channels or no sample rate" };
+  }
+
+  const flags = view.getUint8(1);
+  return {
+    ok: true,
+    frame: {
+      flags,
+      encoding,
+      channels,
+      seq: view.getUint32(4, true),
+      sampleRate,
+      timestampMs: view.getUint32(12, true),
+      frames: view.getUint16(16, true),
+      echoMs: flags & FRAME_FLAG_ECHO ? view.getUint16(18, true) : undefined,
+      payload: new Uint8Array(buffer, AUDIO_FRAME_HEADER_BYTES),
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Per-type registry of control message listeners, shared by the transports
+ */
+
+import type {
+  ServerMessage,
+  ServerMessageOf,
+  ServerMessageType,
+} from "@/services/controlProtocol";
+
+type ControlListener = (message: ServerMessage) => void;
+
+export class ControlListeners {
+  private listeners = new Map<ServerMessageType, Set<ControlListener>>();
+
+  // Subscribe to one control message type; returns an unsubscribe function
+  on<T extends ServerMessageType>(
+    type: T,
+    listener: (message: ServerMessageOf<T>) => void
+  ): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    const entry = listener as ControlListener;
+    listeners.add(entry);
+    return () => {
+      listeners.delete(entry);
+    };
+  }
+
+  dispatch(message: ServerMessage): void {
+    this.listeners.get(message.type)?.forEach(listener => listener(message));
+  }
+}
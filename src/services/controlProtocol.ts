@@ -0,0 +1,225 @@
+/**
+ * Versioned JSON control protocol carried as text frames on the audio socket
+ */
+
+import { z } from "zod";
+
+export const PROTOCOL_VERSION = 1;
+
+// Binary frames identify the encoding by its index here, so only ever append
+export const AUDIO_ENCODINGS = ["pcm_s16le", "pcm_f32le", "opus"] as const;
+export type AudioEncoding = typeof AUDIO_ENCODINGS[number];
+
+// Opus only runs at these rates
+export const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+// A concrete audio format picked by the server during the handshake
+export interface AudioFormat {
+  encoding: AudioEncoding;
+  sampleRate: number;
+  channels: number;
+  frameDurationMs: number;
+}
+
+// Everything the client is able to produce, advertised in the hello message
+export interface AudioCapabilities {
+  encodings: AudioEncoding[];
+  sampleRates: number[];
+  channels: number[];
+  frameDurationsMs: number[];
+}
+
+const audioFormatSchema = z.object({
+  encoding: z.enum(AUDIO_ENCODINGS),
+  sampleRate: z.number().int().positive(),
+  channels: z.number().int().positive(),
+  frameDurationMs: z.number().positive(),
+});
+
+// Messages the server can send
+const acceptMessageSchema = z.object({
+  type: z.literal("accept"),
+  format: audioFormatSchema,
+  // Set when the server picked up the session named in the hello
+  resumed: z.boolean().optional(),
+  // Highest frame sequence number the server holds for a resumed session
+  lastSeq: z.number().int().optional(),
+});
+
+// WebRTC signaling; shapes match RTCSessionDescriptionInit / RTCIceCandidateInit
+const answerMessageSchema = z.object({
+  type: z.literal("answer"),
+  sdp: z.string(),
+});
+
+const iceCandidateMessageSchema = z.object({
+  type: z.literal("ice_candidate"),
+  // null marks the end of candidates
+  candidate: z.object({
+    candidate: z.string(),
+    sdpMid: z.string().nullable().optional(),
+    sdpMLineIndex: z.number().int().nullable().optional(),
+    usernameFragment: z.string().nullable().optional(),
+  }).nullable(),
+});
+
+// May arrive before or after the accept that completes the handshake
+const sessionMessageSchema = z.object({
+  type: z.literal("session"),
+  sessionId: z.string(),
+  // Presented on reconnect to resume the session; absent when resuming is unsupported
+  resumeToken: z.string().optional(),
+});
+
+// Interim hypotheses are replaced by later messages for the same segment until
+// one arrives with final set. Times are milliseconds of session audio
+const transcriptMessageSchema = z.object({
+  type: z.literal("transcript"),
+  text: z.string(),
+  final: z.boolean(),
+  segmentId: z.string().optional(),
+  startMs: z.number().nonnegative().optional(),
+  endMs: z.number().nonnegative().optional(),
+  speaker: z.string().optional(),
+});
+
+const errorMessageSchema = z.object({
+  type: z.literal("error"),
+  code: z.string(),
+  message: z.string(),
+  fatal: z.boolean().optional(),
+});
+
+const endOfUtteranceMessageSchema = z.object({
+  type: z.literal("end_of_utterance"),
+  utteranceId: z.string().optional(),
+});
+
+// All frames up to and including seq have been received
+const ackMessageSchema = z.object({
+  type: z.literal("ack"),
+  seq: z.number().int(),
+});
+
+// Heartbeat reply; echoes the id of the ping it answers
+const pongMessageSchema = z.object({
+  type: z.literal("pong"),
+  id: z.number().int(),
+});
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  acceptMessageSchema,
+  answerMessageSchema,
+  iceCandidateMessageSchema,
+  sessionMessageSchema,
+  transcriptMessageSchema,
+  errorMessageSchema,
+  endOfUtteranceMessageSchema,
+  pongMessageSchema,
+  ackMessageSchema,
+]);
+
+const envelopeSchema = z.object({
+  version: z.number().int(),
+  type: z.string(),
+});
+
+// Declared by hand: z.infer loses required fields without strictNullChecks
+export type ServerMessage =
+  | { type: "accept"; format: AudioFormat; resumed?: boolean; lastSeq?: number }
+  | { type: "answer"; sdp: string }
+  | { type: "ice_candidate"; candidate: RTCIceCandidateInit | null }
+  | { type: "session"; sessionId: string; resumeToken?: string }
+  | {
+      type: "transcript";
+      text: string;
+      final: boolean;
+      segmentId?: string;
+      startMs?: number;
+      endMs?: number;
+      speaker?: string;
+    }
+  | { type: "error"; code: string; message: string; fatal?: boolean }
+  | { type: "end_of_utterance"; utteranceId?: string }
+  | { type: "pong"; id: number }
+  | { type: "ack"; seq: number };
+
+export type ServerMessageType = ServerMessage["type"];
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+// Sent in the hello to pick up a session after a reconnect
+export interface SessionResume {
+  sessionId: string;
+  resumeToken: string;
+  // -1 when nothing was acknowledged yet
+  lastAckedSeq: number;
+}
+
+// Messages the client can send
+export type ClientMessage =
+  | { type: "hello"; capabilities: AudioCapabilities; resume?: SessionResume }
+  | { type: "offer"; sdp: string }
+  | { type: "ice_candidate"; candidate: RTCIceCandidateInit | null }
+  | { type: "start"; metadata?: Record<string, unknown> }
+  | { type: "stop"; reason?: string }
+  | { type: "config"; settings: Record<string, unknown> }
+  | { type: "ping"; id: number }
+  // Voice activity boundaries; audio between speech_end and speech_start is not sent
+  | { type: "speech_start" }
+  | { type: "speech_end" }
+  // Background level to synthesize comfort noise from while nothing is sent
+  | { type: "comfort_noise"; noiseLevelDb: number }
+  // Push-to-talk press and release; audio is only sent in between
+  | { type: "utterance_start"; utteranceId: string }
+  | { type: "utterance_end"; utteranceId: string }
+  // The user talked over playback; positionMs is where in the server audio
+  // timeline it was cut, absent when playback is not timed by the client
+  | { type: "interrupt"; positionMs?: number };
+
+export type ClientMessageType = ClientMessage["type"];
+
+export type ParseResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; error: string };
+
+// Parse and validate a text frame received from the server
+export function parseServerMessage(raw: string): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "Control message is not valid JSON" };
+  }
+
+  const envelope = envelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    return { ok: false, error: "Control message is missing version or type" };
+  }
+  if (envelope.data.version !== PROTOCOL_VERSION) {
+    return { ok: false, error: `Unsupported protocol version ${envelope.data.version}` };
+  }
+
+  const result = serverMessageSchema.safeParse(data);
+  if (!result.success) {
+    return { ok: false, error: `Invalid "${envelope.data.type}" message: ${result.error.message}` };
+  }
+  return { ok: true, message: result.data as ServerMessage };
+}
+
+// Serialize a client message with the protocol version attached
+export function serializeClientMessage(message: ClientMessage): string {
+  return JSON.stringify({ version: PROTOCOL_VERSION, ...message });
+}
+
+// Whether a server-picked format is within what the client advertised
+export function isFormatSupported(format: AudioFormat, capabilities: AudioCapabilities): boolean {
+  if (format.encoding === "opus" && !OPUS_SAMPLE_RATES.includes(format.sampleRate)) {
+    return false;
+  }
+  return (
+    capabilities.encodings.includes(format.encoding) &&
+    capabilities.sampleRates.includes(format.sampleRate) &&
+    capabilities.channels.includes(format.channels) &&
+    capabilities.frameDurationsMs.includes(format.frameDurationMs)
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * Latency bookkeeping for the mouth-to-ear path
+ *
+ * Frames are matched by the uplink timestamp a downlink frame echoes in its
+ * header: a server that echoes audio, or names the capture it responds to,
+ * yields a round trip for every matched frame. The media timestamp of
+ * downlink frames is never used for matching.
+ */
+
+// Estimate of each stage between the microphone and the speaker, in ms.
+// null marks a stage that cannot be measured with the current transport
+export interface LatencyBreakdown {
+  // Input device, capture frame buffering and hand-off to the main thread
+  captureMs: number | null;
+  // Waiting in the outbound queue and encoding
+  queueMs: number | null;
+  // Socket round trip, including server processing
+  networkMs: number | null;
+  // Whether networkMs comes from heartbeats rather than matched audio frames
+  networkEstimated: boolean;
+  jitterBufferMs: number | null;
+  // Web Audio rendering and the output device
+  outputMs: number | null;
+  // Sum of the known stages
+  totalMs: number | null;
+}
+
+// Exponentially weighted moving average
+export class SmoothedValue {
+  private current: number | null = null;
+
+  constructor(private weight = 0.1) {}
+
+  add(sample: number): void {
+    this.current = this.current === null
+      ? sample
+      : this.current + (sample - this.current) * this.weight;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  reset(): void {
+    this.current = null;
+  }
+}
+
+// Sent timestamps remembered while waiting for a response
+const MAX_PENDING_FRAMES = 500;
+
+export class LatencyTracker {
+  private sentAt = new Map<number, number>();
+  private roundTrip = new SmoothedValue();
+  private queue = new SmoothedValue();
+
+  // Keyed by the echo field value, see echoTimestamp()
+  markSent(key: number, at: number = performance.now()): void {
+    this.sentAt.set(key, at);
+    if (this.sentAt.size > MAX_PENDING_FRAMES) {
+      this.sentAt.delete(this.sentAt.keys().next().value);
+    }
+  }
+
+  markReceived(key: number, at: number = performance.now()): void {
+    const sentAt = this.sentAt.get(key);
+    if (sentAt === undefined) return;
+
+    this.sentAt.delete(key);
+    this.roundTrip.add(at - sentAt);
+  }
+
+  addQueueDelay(delayMs: number): void {
+    this.queue.add(delayMs);
+  }
+
+  get roundTripMs(): number | null {
+    return this.roundTrip.value;
+  }
+
+  get queueMs(): number | null {
+    return this.queue.value;
+  }
+
+  reset(): void {
+    this.sentAt.clear();
+    this.roundTrip.reset();
+    this.queue.reset();
+  }
+}
+
+// Add up the stages that could be measured
+export function sumLatency(breakdown: Omit<LatencyBreakdown, "totalMs">): number | null {
+  const stages = [
+    breakdown.captureMs,
+    breakdown.queueMs,
+    breakdown.networkMs,
+    breakdown.jitterBufferMs,
+    breakdown.outputMs,
+  ].filter((value): value is number => value !== null);
+  return stages.length > 0 ? stages.reduce((sum, value) => sum + value, 0) : null;
+}
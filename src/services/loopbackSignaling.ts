@@ -0,0 +1,122 @@
+/**
+ * In-page stand-in for an aiortc-style signaling server
+ *
+ * Offers sent through it are answered by a local peer connection that plays
+ * the received audio straight back, so WebRTCTransport's offer, answer and
+ * ICE path can be exercised without a server. Like aiortc, it answers only
+ * once ICE gathering completes, unless trickleIce is set. Pass it to a
+ * WebRTCTransport in place of the WebSocketService:
+ *
+ *   new WebRTCTransport(new LoopbackSignaling())
+ */
+
+import { ControlListeners } from "@/services/controlListeners";
+import { waitForIceGathering, type SignalingChannel } from "@/services/webrtcTransport";
+import type {
+  ClientMessage,
+  ServerMessage,
+  ServerMessageOf,
+  ServerMessageType,
+} from "@/services/controlProtocol";
+
+export interface LoopbackSignalingOptions {
+  trickleIce?: boolean;
+  iceGatheringTimeoutMs?: number;
+}
+
+class LoopbackSignaling implements SignalingChannel {
+  // Every control message sent through the channel, in order
+  readonly sentMessages: ClientMessage[] = [];
+  private isConnected = false;
+  private peerConnection: RTCPeerConnection | null = null;
+  private controlListeners = new ControlListeners();
+
+  constructor(private options: LoopbackSignalingOptions = {}) {}
+
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  async connect(): Promise<void> {
+    this.isConnected = true;
+  }
+
+  disconnect(): void {
+    this.isConnected = false;
+    this.closePeerConnection();
+  }
+
+  sendControl(message: ClientMessage): boolean {
+    if (!this.isConnected) return false;
+    this.sentMessages.push(message);
+
+    if (message.type === "offer") {
+      this.answer(message.sdp).catch(error => {
+        console.error("Loopback peer could not answer:", error);
+        this.deliver({ type: "error", code: "negotiation_failed", message: String(error) });
+      });
+    } else if (message.type === "ice_candidate" && this.peerConnection) {
+      this.peerConnection.addIceCandidate(message.candidate ?? undefined)
+        .catch(error => console.error("Loopback peer rejected an ICE candidate:", error));
+    }
+    return true;
+  }
+
+  onControl<T extends ServerMessageType>(
+    type: T,
+    listener: (message: ServerMessageOf<T>) => void
+  ): () => void {
+    return this.controlListeners.on(type, listener);
+  }
+
+  // Messages are never parsed, so there are no protocol errors to report
+  onProtocolError(_callback: (error: string) => void): void {}
+
+  // There is no socket to measure
+  onRtt(_callback: (rttMs: number) => void): void {}
+
+  // A new offer replaces the previous peer, as a server would on renegotiation
+  private async answer(sdp: string): Promise<void> {
+    this.closePeerConnection();
+    const peerConnection = new RTCPeerConnection();
+    this.peerConnection = peerConnection;
+
+    // Send each received track back on the transceiver it arrived on
+    peerConnection.ontrack = (event) => {
+      event.transceiver.direction = "sendrecv";
+      event.transceiver.sender.replaceTrack(event.track)
+        .catch(error => console.error("Loopback peer could not echo the track:", error));
+    };
+    if (this.options.trickleIce) {
+      peerConnection.onicecandidate = (event) => {
+        this.deliver({ type: "ice_candidate", candidate: event.candidate ? event.candidate.toJSON() : null });
+      };
+    }
+
+    await peerConnection.setRemoteDescription({ type: "offer", sdp });
+    await peerConnection.setLocalDescription(await peerConnection.createAnswer());
+    if (!this.options.trickleIce) {
+      await waitForIceGathering(peerConnection, this.options.iceGatheringTimeoutMs);
+    }
+    if (this.peerConnection !== peerConnection) return;
+    this.deliver({ type: "answer", sdp: peerConnection.localDescription.sdp });
+  }
+
+  // Replies arrive asynchronously, as they would over a socket
+  private deliver(message: ServerMessage): void {
+    setTimeout(() => {
+      if (this.isConnected) this.controlListeners.dispatch(message);
+    }, 0);
+  }
+
+  private closePeerConnection(): void {
+    if (this.peerConnection) {
+      this.peerConnection.ontrack = null;
+      this.peerConnection.onicecandidate = null;
+      this.peerConnection.close();
+      this.peerConnection = null;
+    }
+  }
+}
+
+export default LoopbackSignaling;
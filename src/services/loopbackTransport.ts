@@ -0,0 +1,141 @@
+/**
+ * In-memory transport that plays captured frames straight back, for tests and
+ * for exercising the capture and playback paths without a server
+ */
+
+import { ControlListeners } from "@/services/controlListeners";
+import type { AudioTransport, ConnectionState } from "@/services/transport";
+import type { DecodedAudioFrame } from "@/services/audioDecoder";
+import type {
+  AudioFormat,
+  ClientMessage,
+  ServerMessage,
+  ServerMessageOf,
+  ServerMessageType,
+} from "@/services/controlProtocol";
+
+export interface LoopbackTransportOptions {
+  format?: AudioFormat;
+  // Artificial one-way delay before a sent frame comes back
+  latencyMs?: number;
+}
+
+const DEFAULT_LOOPBACK_FORMAT: AudioFormat = {
+  encoding: "pcm_f32le",
+  sampleRate: 48000,
+  channels: 1,
+  frameDurationMs: 20,
+};
+
+class LoopbackTransport implements AudioTransport {
+  readonly kind = "loopback";
+  // Every control message sent through the transport, in order
+  readonly sentMessages: ClientMessage[] = [];
+  private isConnected = false;
+  private connectionState: ConnectionState = { status: "idle" };
+  private onStateChangeCallback: ((state: ConnectionState) => void) | null = null;
+  private timestampMs = 0;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private controlListeners = new ControlListeners();
+  private onAudioFrameCallback: ((frame: DecodedAudioFrame) => void) | null = null;
+  private onConnectCallback: (() => void) | null = null;
+  private onDisconnectCallback: (() => void) | null = null;
+
+  constructor(private options: LoopbackTransportOptions = {}) {}
+
+  async connect(): Promise<void> {
+    this.isConnected = true;
+    this.timestampMs = 0;
+    this.setState({ status: "open" });
+    if (this.onConnectCallback) this.onConnectCallback();
+  }
+
+  disconnect(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.setState({ status: "closed-by-user" });
+    if (this.isConnected) {
+      this.isConnected = false;
+      if (this.onDisconnectCallback) this.onDisconnectCallback();
+    }
+  }
+
+  retryNow(): void {
+    if (!this.isConnected) this.connect();
+  }
+
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  get state(): ConnectionState {
+    return this.connectionState;
+  }
+
+  get format(): AudioFormat {
+    return this.options.format ?? DEFAULT_LOOPBACK_FORMAT;
+  }
+
+  sendAudioData(samples: Float32Array): void {
+    if (!this.isConnected) return;
+
+    const { sampleRate, channels } = this.format;
+    const frame: DecodedAudioFrame = {
+      samples: samples.slice(),
+      sampleRate,
+      channels,
+      timestampMs: this.timestampMs,
+    };
+    this.timestampMs += samples.length / channels / sampleRate * 1000;
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (this.onAudioFrameCallback) this.onAudioFrameCallback(frame);
+    }, this.options.latencyMs ?? 0);
+    this.timers.add(timer);
+  }
+
+  onAudioFrame(callback: (frame: DecodedAudioFrame) => void): void {
+    this.onAudioFrameCallback = callback;
+  }
+
+  sendControl(message: ClientMessage): boolean {
+    if (!this.isConnected) return false;
+    this.sentMessages.push(message);
+    return true;
+  }
+
+  // Deliver a control message as if the server had sent it
+  receive(message: ServerMessage): void {
+    this.controlListeners.dispatch(message);
+  }
+
+  onControl<T extends ServerMessageType>(
+    type: T,
+    listener: (message: ServerMessageOf<T>) => void
+  ): () => void {
+    return this.controlListeners.on(type, listener);
+  }
+
+  // Messages are never parsed, so there are no protocol errors to report
+  onProtocolError(_callback: (error: string) => void): void {}
+
+  onConnect(callback: () => void): void {
+    this.onConnectCallback = callback;
+  }
+
+  onDisconnect(callback: () => void): void {
+    this.onDisconnectCallback = callback;
+  }
+
+  onStateChange(callback: (state: ConnectionState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  private setState(state: ConnectionState): void {
+    this.connectionState = state;
+    if (this.onStateChangeCallback) this.onStateChangeCallback(state);
+  }
+}
+
+export default LoopbackTransport;
@@ -0,0 +1,134 @@
+/**
+ * Bounded queue of captured frames waiting to go out on the socket
+ *
+ * Frames older than the latency budget are dropped rather than sent late, and
+ * the queue never holds more than maxQueuedMs of audio. Frames captured while
+ * the transport is reconnecting can be held for up to holdMs and flushed once
+ * it reopens.
+ */
+
+export type FrameDropReason = "stale" | "overflow" | "disconnected" | "format_change";
+
+export interface FrameDropEvent {
+  reason: FrameDropReason;
+  frames: number;
+  durationMs: number;
+}
+
+export interface OutboundQueueOptions {
+  // Oldest a frame may be when it is handed to the socket
+  latencyBudgetMs?: number;
+  // Upper bound for queued audio; the oldest frames go first
+  maxQueuedMs?: number;
+  // Upper bound in frames, for frames whose duration is unknown
+  maxQueuedFrames?: number;
+  // How long frames captured while reconnecting stay worth sending
+  holdMs?: number;
+}
+
+export interface OutboundQueueStats {
+  queuedFrames: number;
+  queuedMs: number;
+  droppedFrames: number;
+  droppedMs: number;
+}
+
+export interface QueuedFrame {
+  samples: Float32Array;
+  durationMs: number;
+  // Capture time of the first sample, when the caller knows it
+  captureTimeMs?: number;
+  enqueuedAt: number;
+  // Captured while disconnected, so judged against holdMs instead of the budget
+  held: boolean;
+}
+
+export class OutboundQueue {
+  private frames: QueuedFrame[] = [];
+  private queuedMs = 0;
+  private droppedFrames = 0;
+  private droppedMs = 0;
+  private onDropCallback: ((event: FrameDropEvent) => void) | null = null;
+
+  constructor(private options: OutboundQueueOptions = {}) {}
+
+  get length(): number {
+    return this.frames.length;
+  }
+
+  get holdMs(): number {
+    return this.options.holdMs ?? 2000;
+  }
+
+  push(samples: Float32Array, durationMs: number, held = false, captureTimeMs?: number): void {
+    const { maxQueuedMs = 2000, maxQueuedFrames = 500 } = this.options;
+
+    this.frames.push({ samples, durationMs, captureTimeMs, enqueuedAt: performance.now(), held });
+    this.queuedMs += durationMs;
+
+    let frames = 0;
+    let droppedMs = 0;
+    while ((this.queuedMs > maxQueuedMs || this.frames.length > maxQueuedFrames) && this.frames.length > 1) {
+      const frame = this.frames.shift();
+      this.queuedMs -= frame.durationMs;
+      frames++;
+      droppedMs += frame.durationMs;
+    }
+    this.reportDrop("overflow", frames, droppedMs);
+  }
+
+  // Next frame still worth sending; stale frames on the way are dropped
+  shift(now: number = performance.now()): QueuedFrame | null {
+    const { latencyBudgetMs = 500 } = this.options;
+
+    let frames = 0;
+    let droppedMs = 0;
+    let next: QueuedFrame | null = null;
+    while (this.frames.length > 0) {
+      const frame = this.frames.shift();
+      this.queuedMs -= frame.durationMs;
+
+      const maxAgeMs = frame.held ? this.holdMs : latencyBudgetMs;
+      if (now - frame.enqueuedAt <= maxAgeMs) {
+        next = frame;
+        break;
+      }
+      frames++;
+      droppedMs += frame.durationMs;
+    }
+    if (this.frames.length === 0) this.queuedMs = 0;
+
+    this.reportDrop("stale", frames, droppedMs);
+    return next;
+  }
+
+  clear(reason: FrameDropReason): void {
+    const frames = this.frames.length;
+    const droppedMs = this.queuedMs;
+    this.frames = [];
+    this.queuedMs = 0;
+    this.reportDrop(reason, frames, droppedMs);
+  }
+
+  // Report frames that never made it into the queue
+  reportDrop(reason: FrameDropReason, frames: number, durationMs: number): void {
+    if (frames === 0) return;
+
+    this.droppedFrames += frames;
+    this.droppedMs += durationMs;
+    if (this.onDropCallback) this.onDropCallback({ reason, frames, durationMs });
+  }
+
+  getStats(): OutboundQueueStats {
+    return {
+      queuedFrames: this.frames.length,
+      queuedMs: this.queuedMs,
+      droppedFrames: this.droppedFrames,
+      droppedMs: this.droppedMs,
+    };
+  }
+
+  onDrop(callback: (event: FrameDropEvent) => void): void {
+    this.onDropCallback = callback;
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * Jitter-buffered playback of raw PCM frames received from the server
+ */
+
+import { int16ToFloat32 } from "@/utils/audioUtils";
+import { Resampler } from "@/utils/resampler";
+
+export interface PlaybackEngineOptions {
+  sampleRate?: number;     // Rate of incoming frames, defaults to the context rate
+  channels?: number;       // Interleaved channel count of incoming frames
+  targetDepthMs?: number;  // Minimum buffered audio before playback (re)starts
+  maxDepthMs?: number;     // Buffered audio above this is dropped
+  fadeMs?: number;         // Ramp length used to hide discontinuities
+}
+
+export interface PlaybackStats {
+  depthMs: number;
+  targetDepthMs: number;
+  jitterMs: number;
+  underruns: number;
+  overruns: number;
+  concealedFrames: number;
+  droppedFrames: number;
+  lateFrames: number;
+}
+
+// Where playback was cut by flush()
+export interface PlaybackInterruption {
+  // Position in the incoming media timeline (frame timestamps), null if untimed
+  positionMs: number | null;
+  // Buffered audio that was thrown away
+  flushedMs: number;
+}
+
+interface PendingFrame {
+  samples: Float32Array;
+  // Media timestamp of the first sample, null for untimed frames
+  timestampMs: number | null;
+}
+
+interface ScheduledFrame {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  startTime: number;
+  endTime: number;
+  samples: Float32Array;
+  // Concealment frames are not part of the media timeline
+  timestampMs: number | null;
+}
+
+// How often the buffer is checked for underruns
+const PUMP_INTERVAL_MS = 10;
+// Stop adapting the target back down until playback has been stable this long
+const STABLE_PERIOD_MS = 10000;
+// A stream that stays dry longer than this ended rather than underran
+const END_OF_STREAM_MS = 500;
+// Frames per Web Audio render quantum; flush() cuts within one
+const RENDER_QUANTUM_FRAMES = 128;
+
+class PlaybackEngine {
+  readonly output: GainNode;
+
+  private sampleRate: number;
+  private channels: number;
+  private resampler: Resampler | null = null;
+  private baseTargetDepth: number;
+  private maxDepth: number;
+  private fadeTime: number;
+
+  private pending: PendingFrame[] = [];
+  private pendingDuration = 0;
+  private scheduled = new Set<ScheduledFrame>();
+  private lastScheduled: ScheduledFrame | null = null;
+  private nextPlayTime = 0;
+  // Nothing is scheduled before this context time after a flush
+  private resumeAt = 0;
+  // Media position reached by frames that have finished playing
+  private playedUntilMs: number | null = null;
+  private primed = false;
+  private needsFadeIn = true;
+  // Wall-clock time the buffer ran dry, until the next frame tells why
+  private drainedAt: number | null = null;
+
+  private jitter = 0;
+  private lastArrival: number | null = null;
+  private underrunPenalty = 0;
+  private lastUnderrunAt = 0;
+
+  private underruns = 0;
+  private overruns = 0;
+  private concealedFrames = 0;
+  private droppedFrames = 0;
+  private lateFrames = 0;
+  private expectedTimestampMs: number | null = null;
+
+  private pumpTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private audioContext: AudioContext, options: PlaybackEngineOptions = {}) {
+    this.setFormat(options.sampleRate ?? audioContext.sampleRate, options.channels ?? 1);
+    this.baseTargetDepth = (options.targetDepthMs ?? 60) / 1000;
+    this.maxDepth = Math.max((options.maxDepthMs ?? 250) / 1000, this.baseTargetDepth * 2);
+    this.fadeTime = (options.fadeMs ?? 5) / 1000;
+
+    this.output = audioContext.createGain();
+    this.pumpTimer = setInterval(() => this.pump(), PUMP_INTERVAL_MS);
+  }
+
+  // Queue a frame of interleaved PCM for playback; timestamps expose loss and reordering
+  enqueue(frame: Int16Array | Float32Array, timestampMs?: number): void {
+    if (frame.length === 0) return;
+    const duration = frame.length / this.channels / this.sampleRate;
+
+    const gap = timestampMs !== undefined ? this.checkTimestamp(timestampMs, duration) : 0;
+    if (gap === null) return;
+    this.trackArrival(duration);
+    if (this.drainedAt !== null) {
+      // Audio that follows closely was late; after a pause it is a new stream
+      if (performance.now() - this.drainedAt < END_OF_STREAM_MS) {
+        this.handleUnderrun();
+      }
+      this.drainedAt = null;
+    }
+    if (gap > 0) {
+      this.bridgeGap(gap, timestampMs - gap * 1000);
+    }
+
+    // Buffered audio is always kept at the context rate
+    const floatFrame = frame instanceof Int16Array ? int16ToFloat32(frame) : frame;
+    // The resampler reuses its output buffer, and queued frames must outlive the call
+    const samples = this.resampler ? this.resampler.process(floatFrame).slice() : floatFrame;
+    if (samples.length === 0) return;
+    if (gap > 0) {
+      this.ramp(samples, true);
+    }
+
+    this.pending.push({ samples, timestampMs: timestampMs ?? null });
+    this.pendingDuration += this.durationOf(samples);
+
+    if (this.primed && this.depth > this.maxDepth) {
+      this.handleOverrun();
+    }
+
+    this.pump();
+  }
+
+  // Change the format of subsequent frames
+  setFormat(sampleRate: number, channels: number = this.channels): void {
+    if (sampleRate === this.sampleRate && channels === this.channels) return;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.resampler = sampleRate !== this.audioContext.sampleRate
+      ? new Resampler(sampleRate, this.audioContext.sampleRate, { channels })
+      : null;
+  }
+
+  // Start a new media timeline, e.g. when the server stream restarts
+  resetTimeline(): void {
+    this.expectedTimestampMs = null;
+    this.playedUntilMs = null;
+    this.resampler?.reset();
+  }
+
+  // Whether anything is playing or waiting to play
+  get isPlaying(): boolean {
+    return this.scheduled.size > 0 || this.pending.length > 0;
+  }
+
+  // Cut playback within one render quantum and drop everything queued, e.g.
+  // when the user talks over the server. The next frames start a new timeline
+  flush(): PlaybackInterruption {
+    const now = this.audioContext.currentTime;
+    const cutTime = now + RENDER_QUANTUM_FRAMES / this.audioContext.sampleRate;
+    const interruption: PlaybackInterruption = {
+      positionMs: this.positionAt(cutTime),
+      flushedMs: this.depth * 1000,
+    };
+
+    // Ramp the whole output down over the quantum rather than click, then
+    // stop every source there; sources that have not started never will
+    this.output.gain.cancelScheduledValues(now);
+    this.output.gain.setValueAtTime(1, now);
+    this.output.gain.linearRampToValueAtTime(0, cutTime);
+    this.output.gain.setValueAtTime(1, cutTime);
+    this.scheduled.forEach(frame => {
+      // The cut frames no longer count towards the played position
+      frame.source.onended = () => frame.gain.disconnect();
+      frame.source.stop(cutTime);
+    });
+    this.scheduled.clear();
+
+    this.pending = [];
+    this.pendingDuration = 0;
+    this.primed = false;
+    this.needsFadeIn = true;
+    this.drainedAt = null;
+    this.lastScheduled = null;
+    this.nextPlayTime = cutTime;
+    this.resumeAt = cutTime;
+    this.resetTimeline();
+    return interruption;
+  }
+
+  // Buffered audio (scheduled ahead plus queued) in seconds
+  get depth(): number {
+    const lead = Math.max(0, this.nextPlayTime - this.audioContext.currentTime);
+    return (this.primed ? lead : 0) + this.pendingDuration;
+  }
+
+  get targetDepth(): number {
+    const adaptive = Math.max(this.baseTargetDepth, this.jitter * 3) + this.underrunPenalty;
+    return Math.min(adaptive, this.maxDepth);
+  }
+
+  getStats(): PlaybackStats {
+    return {
+      depthMs: this.depth * 1000,
+      targetDepthMs: this.targetDepth * 1000,
+      jitterMs: this.jitter * 1000,
+      underruns: this.underruns,
+      overruns: this.overruns,
+      concealedFrames: this.concealedFrames,
+      droppedFrames: this.droppedFrames,
+      lateFrames: this.lateFrames,
+    };
+  }
+
+  dispose(): void {
+    if (this.pumpTimer) {
+      clearInterval(this.pumpTimer);
+      this.pumpTimer = null;
+    }
+
+    this.scheduled.forEach(frame => {
+      frame.source.onended = null;
+      frame.source.stop();
+      frame.gain.disconnect();
+    });
+    this.scheduled.clear();
+    this.pending = [];
+    this.pendingDuration = 0;
+    this.output.disconnect();
+  }
+
+  // Returns the gap in seconds before this frame, or null if it arrived too late
+  private checkTimestamp(timestampMs: number, duration: number): number | null {
+    const expected = this.expectedTimestampMs;
+    const tolerance = duration * 1000 / 2;
+
+    if (expected !== null && timestampMs < expected - tolerance) {
+      // Anything older than what was already queued would play out of order
+      this.lateFrames++;
+      return null;
+    }
+
+    this.expectedTimestampMs = timestampMs + duration * 1000;
+    if (expected !== null && timestampMs > expected + tolerance) {
+      return (timestampMs - expected) / 1000;
+    }
+    return 0;
+  }
+
+  // Fill the slot of lost frames with silence, fading out what precedes it
+  private bridgeGap(gap: number, timestampMs: number): void {
+    this.resampler?.reset();
+    if (!this.primed || gap >= this.maxDepth) return;
+
+    const lastPending = this.pending[this.pending.length - 1];
+    if (lastPending) {
+      this.ramp(lastPending.samples, false);
+    } else {
+      this.fadeOutTail();
+    }
+
+    const frames = Math.round(gap * this.audioContext.sampleRate);
+    this.pending.push({ samples: new Float32Array(frames * this.channels), timestampMs });
+    this.pendingDuration += frames / this.audioContext.sampleRate;
+    this.concealedFrames++;
+  }
+
+  // Apply a short linear fade to the start (in) or end (out) of a frame in place
+  private ramp(samples: Float32Array, fadeIn: boolean): void {
+    const frames = samples.length / this.channels;
+    const fadeFrames = Math.min(frames, Math.round(this.fadeTime * this.audioContext.sampleRate));
+    for (let i = 0; i < fadeFrames; i++) {
+      const gain = i / fadeFrames;
+      const frame = fadeIn ? i : frames - 1 - i;
+      for (let c = 0; c < this.channels; c++) {
+        samples[frame * this.channels + c] *= gain;
+      }
+    }
+  }
+
+  // RFC 3550 style inter-arrival jitter estimate
+  private trackArrival(duration: number): void {
+    const now = performance.now() / 1000;
+    if (this.lastArrival !== null) {
+      const deviation = Math.abs(now - this.lastArrival - duration);
+      this.jitter += (deviation - this.jitter) / 16;
+    }
+    this.lastArrival = now;
+  }
+
+  private pump(): void {
+    const now = this.audioContext.currentTime;
+
+    // Decays between streams too, while nothing is primed
+    if (this.underrunPenalty > 0 && performance.now() - this.lastUnderrunAt > STABLE_PERIOD_MS) {
+      this.underrunPenalty = Math.max(0, this.underrunPenalty - 0.01);
+      this.lastUnderrunAt = performance.now();
+    }
+
+    if (!this.primed) {
+      if (this.pendingDuration < this.targetDepth) return;
+      this.primed = true;
+      // Start after any tail still fading out from before the stream ran dry
+      this.nextPlayTime = Math.max(now + this.fadeTime, this.resumeAt, this.nextPlayTime);
+      this.needsFadeIn = true;
+    }
+
+    // Schedule queued frames until the lead reaches the target depth
+    while (this.pending.length > 0 && this.nextPlayTime - now < this.targetDepth) {
+      const { samples, timestampMs } = this.pending.shift()!;
+      this.pendingDuration -= this.durationOf(samples);
+      this.schedule(samples, this.needsFadeIn, timestampMs);
+      this.needsFadeIn = false;
+    }
+
+    // Nothing left to play before the scheduled audio runs out
+    if (this.pending.length === 0 && this.nextPlayTime - now < PUMP_INTERVAL_MS * 2 / 1000) {
+      this.drain();
+    }
+  }
+
+  private schedule(samples: Float32Array, fadeIn: boolean, timestampMs: number | null = null): ScheduledFrame {
+    const frames = samples.length / this.channels;
+    const buffer = this.audioContext.createBuffer(this.channels, frames, this.audioContext.sampleRate);
+    for (let c = 0; c < this.channels; c++) {
+      const channel = buffer.getChannelData(c);
+      for (let i = 0; i < frames; i++) {
+        channel[i] = samples[i * this.channels + c];
+      }
+    }
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = buffer;
+    const gain = this.audioContext.createGain();
+    source.connect(gain);
+    gain.connect(this.output);
+
+    const startTime = Math.max(this.nextPlayTime, this.audioContext.currentTime);
+    const endTime = startTime + buffer.duration;
+    if (fadeIn) {
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(1, startTime + Math.min(this.fadeTime, buffer.duration));
+    }
+    source.start(startTime);
+
+    const scheduled: ScheduledFrame = { source, gain, startTime, endTime, samples, timestampMs };
+    source.onended = () => {
+      this.scheduled.delete(scheduled);
+      gain.disconnect();
+      if (timestampMs !== null) {
+        this.playedUntilMs = Math.max(this.playedUntilMs ?? 0, timestampMs + buffer.duration * 1000);
+      }
+    };
+    this.scheduled.add(scheduled);
+    this.lastScheduled = scheduled;
+    this.nextPlayTime = endTime;
+    return scheduled;
+  }
+
+  // Ramp the most recently scheduled frame down to silence at its end
+  private fadeOutTail(): void {
+    const last = this.lastScheduled;
+    if (!last) return;
+
+    const fadeStart = Math.max(this.audioContext.currentTime, last.endTime - this.fadeTime);
+    last.gain.gain.cancelScheduledValues(fadeStart);
+    last.gain.gain.setValueAtTime(1, fadeStart);
+    last.gain.gain.linearRampToValueAtTime(0, last.endTime);
+  }
+
+  // The stream ran dry, which is how every response ends. Fade out cleanly
+  // and re-prime; only frames that follow soon after make it an underrun
+  private drain(): void {
+    if (!this.primed) return;
+    this.fadeOutTail();
+    this.primed = false;
+    this.lastScheduled = null;
+    this.needsFadeIn = true;
+    this.drainedAt = performance.now();
+  }
+
+  // Frames were late rather than finished; re-prime with a deeper buffer
+  private handleUnderrun(): void {
+    this.underruns++;
+    this.underrunPenalty = Math.min(this.underrunPenalty + 0.02, this.maxDepth);
+    this.lastUnderrunAt = performance.now();
+  }
+
+  private handleOverrun(): void {
+    this.overruns++;
+
+    // Drop the oldest queued audio until we are back at the target depth
+    let dropped = false;
+    while (this.pending.length > 0 && this.depth > this.targetDepth) {
+      const { samples } = this.pending.shift()!;
+      this.pendingDuration -= this.durationOf(samples);
+      this.droppedFrames++;
+      dropped = true;
+    }
+
+    if (dropped) {
+      // Fade across the gap: out at the end of what is scheduled, in on the next frame
+      this.fadeOutTail();
+      this.needsFadeIn = true;
+    }
+  }
+
+  // Media position heard at a context time, from the frames scheduled around it
+  private positionAt(time: number): number | null {
+    let position = this.playedUntilMs;
+    this.scheduled.forEach(frame => {
+      if (frame.timestampMs === null || frame.startTime > time) return;
+      const elapsed = Math.min(time, frame.endTime) - frame.startTime;
+      position = Math.max(position ?? 0, frame.timestampMs + elapsed * 1000);
+    });
+    return position;
+  }
+
+  private durationOf(samples: Float32Array): number {
+    return samples.length / this.channels / this.audioContext.sampleRate;
+  }
+}
+
+export default PlaybackEngine;
@@ -0,0 +1,68 @@
+/**
+ * Keeps session recordings in IndexedDB so they survive a page reload
+ */
+
+import type { RecordingFile } from "@/services/sessionRecorder";
+
+const DB_NAME = "audio-stream-helper";
+const DB_VERSION = 1;
+const STORE_NAME = "recordings";
+
+export interface StoredRecording {
+  id: string;
+  createdAt: Date;
+  durationMs: number;
+  files: RecordingFile[];
+}
+
+// Wrap an IndexedDB request in a promise
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class RecordingStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async save(recording: Omit<StoredRecording, "id">): Promise<StoredRecording> {
+    const stored: StoredRecording = { id: crypto.randomUUID(), ...recording };
+    await this.run("readwrite", store => store.put(stored));
+    return stored;
+  }
+
+  // Newest first
+  async list(): Promise<StoredRecording[]> {
+    const recordings = await this.run("readonly", store => store.getAll() as IDBRequest<StoredRecording[]>);
+    return recordings.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.run("readwrite", store => store.delete(id));
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return settle(operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      this.db = settle(request);
+      // Let a later call retry if the browser refused (e.g. private mode)
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
+
+export default RecordingStore;
@@ -0,0 +1,212 @@
+/**
+ * Local recording of a streaming session, both directions
+ *
+ * A recorder worklet taps the microphone and the playback mix on the audio
+ * thread, so the two stay sample-aligned. Recordings can be rendered as one
+ * stereo WAV (left: microphone, right: received) or as two mono files. The
+ * microphone is tapped before VAD and push-to-talk gating, so it also holds
+ * audio that was never sent.
+ */
+
+import recorderProcessorUrl from "@/worklets/recorderProcessor.ts?worker&url";
+import {
+  RECORDER_PROCESSOR_NAME,
+  type RecorderMessage,
+  type RecorderProcessorOptions,
+} from "@/worklets/messages";
+import { float32ToInt16 } from "@/utils/audioUtils";
+import { encodeWav } from "@/utils/wav";
+
+export type RecordingLayout = "stereo" | "separate";
+
+export interface SessionRecorderOptions {
+  // Recording stops taking audio past this length, to bound memory use
+  maxDurationMs?: number;
+}
+
+// Audio is kept as 16-bit chunks, the resolution it is saved at, to halve memory use
+export interface SessionRecording {
+  startedAt: Date;
+  sampleRate: number;
+  durationMs: number;
+  // What the microphone picked up, whether or not it was sent
+  capture: Int16Array[];
+  // What was played back from the server, chunked like capture
+  playback: Int16Array[];
+}
+
+export interface RecordingFile {
+  name: string;
+  blob: Blob;
+}
+
+export class SessionRecorder {
+  private node: AudioWorkletNode | null = null;
+  private playbackSource: AudioNode | null = null;
+  private captureSource: AudioNode | null = null;
+  private captureChunks: Int16Array[] = [];
+  private playbackChunks: Int16Array[] = [];
+  private recordedFrames = 0;
+  private startedAt = new Date();
+  private limitReached = false;
+  private onFlushed: (() => void) | null = null;
+  private onLimitCallback: (() => void) | null = null;
+
+  constructor(private audioContext: AudioContext, private options: SessionRecorderOptions = {}) {}
+
+  get isRecording(): boolean {
+    return this.node !== null;
+  }
+
+  // Start recording; the playback mix is tapped here, the microphone via connectCapture
+  async start(playbackSource: AudioNode): Promise<void> {
+    if (this.node) return;
+
+    await this.audioContext.audioWorklet.addModule(recorderProcessorUrl);
+    const processorOptions: RecorderProcessorOptions = { chunkSize: 4096 };
+    const node = new AudioWorkletNode(this.audioContext, RECORDER_PROCESSOR_NAME, {
+      numberOfInputs: 2,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      channelCountMode: "explicit",
+      processorOptions,
+    });
+    node.port.onmessage = (event: MessageEvent<RecorderMessage>) => this.handleMessage(event.data);
+
+    playbackSource.connect(node, 0, 1);
+    this.playbackSource = playbackSource;
+    // Keep the node pulled by the graph; it only ever outputs silence
+    node.connect(this.audioContext.destination);
+
+    this.captureChunks = [];
+    this.playbackChunks = [];
+    this.recordedFrames = 0;
+    this.limitReached = false;
+    this.startedAt = new Date();
+    this.node = node;
+  }
+
+  // The microphone source changes with the input device, so it is attached separately
+  connectCapture(source: AudioNode): void {
+    if (!this.node) return;
+    source.connect(this.node, 0, 0);
+    this.captureSource = source;
+  }
+
+  disconnectCapture(source: AudioNode): void {
+    this.disconnectSource(source);
+    if (source === this.captureSource) this.captureSource = null;
+  }
+
+  // Stop recording and collect everything captured so far
+  async stop(): Promise<SessionRecording | null> {
+    const node = this.node;
+    if (!node) return null;
+
+    // Wait for the partial chunk still on the audio thread
+    await new Promise<void>((resolve) => {
+      this.onFlushed = resolve;
+      node.port.postMessage({ type: "flush" });
+      // A suspended context never answers; keep what has arrived
+      setTimeout(resolve, 500);
+    });
+    this.release();
+
+    const sampleRate = this.audioContext.sampleRate;
+    return {
+      startedAt: this.startedAt,
+      sampleRate,
+      durationMs: this.recordedFrames / sampleRate * 1000,
+      capture: this.captureChunks,
+      playback: this.playbackChunks,
+    };
+  }
+
+  // Stop without collecting anything
+  dispose(): void {
+    this.release();
+    this.captureChunks = [];
+    this.playbackChunks = [];
+  }
+
+  // Called once when maxDurationMs is reached
+  onLimit(callback: () => void): void {
+    this.onLimitCallback = callback;
+  }
+
+  private handleMessage(message: RecorderMessage): void {
+    if (message.type === "flushed") {
+      this.onFlushed?.();
+      this.onFlushed = null;
+      return;
+    }
+
+    const { maxDurationMs = 10 * 60 * 1000 } = this.options;
+    const maxFrames = maxDurationMs / 1000 * this.audioContext.sampleRate;
+    if (this.recordedFrames + message.capture.length > maxFrames) {
+      if (!this.limitReached) {
+        this.limitReached = true;
+        console.warn(`Recording reached ${maxDurationMs} ms, ignoring further audio`);
+        this.onLimitCallback?.();
+      }
+      return;
+    }
+
+    this.captureChunks.push(float32ToInt16(message.capture));
+    this.playbackChunks.push(float32ToInt16(message.playback));
+    this.recordedFrames += message.capture.length;
+  }
+
+  private disconnectSource(source: AudioNode | null): void {
+    if (!this.node || !source) return;
+    try {
+      source.disconnect(this.node);
+    } catch {
+      // Already disconnected
+    }
+  }
+
+  private release(): void {
+    if (!this.node) return;
+    this.node.port.onmessage = null;
+    this.node.disconnect();
+    // Inputs keep a node running, so the playback tap has to go too
+    this.disconnectSource(this.playbackSource);
+    this.disconnectSource(this.captureSource);
+    this.playbackSource = null;
+    this.captureSource = null;
+    this.node = null;
+    this.onFlushed = null;
+  }
+}
+
+// Render a recording as WAV files named after its start time
+export const renderRecording = (
+  recording: SessionRecording,
+  layout: RecordingLayout = "stereo"
+): RecordingFile[] => {
+  const stamp = recording.startedAt.toISOString().replace(/[:.]/g, "-");
+  if (layout === "stereo") {
+    return [{
+      name: `session-${stamp}.wav`,
+      blob: encodeWav([recording.capture, recording.playback], recording.sampleRate),
+    }];
+  }
+  return [
+    { name: `session-${stamp}-microphone.wav`, blob: encodeWav([recording.capture], recording.sampleRate) },
+    { name: `session-${stamp}-received.wav`, blob: encodeWav([recording.playback], recording.sampleRate) },
+  ];
+};
+
+// Save a file through the browser's download prompt
+export const downloadFile = (file: RecordingFile): void => {
+  const url = URL.createObjectURL(file.blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export default SessionRecorder;
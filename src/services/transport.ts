@@ -0,0 +1,93 @@
+/**
+ * Common surface shared by the audio transports
+ *
+ * Frame-based transports carry captured Float32 frames through
+ * `sendAudioData` and deliver server audio through `onAudioFrame`.
+ * Track-based transports (WebRTC) implement the optional track methods
+ * instead and leave the frame methods inert.
+ */
+
+import type { DecodedAudioFrame } from "@/services/audioDecoder";
+import type { FrameDropEvent } from "@/services/outboundQueue";
+import type {
+  AudioFormat,
+  ClientMessage,
+  ServerMessageOf,
+  ServerMessageType,
+} from "@/services/controlProtocol";
+
+export type TransportKind = "websocket" | "webrtc";
+
+// Close code and reason reported by the last dropped connection
+export interface CloseInfo {
+  code: number;
+  reason: string;
+}
+
+export type ConnectionState =
+  | { status: "idle" }
+  // attempt is 0 for the first connection and counts up while reconnecting;
+  // maxAttempts is 0 when retries are manual and unlimited
+  | { status: "connecting"; attempt: number; maxAttempts: number }
+  | { status: "open" }
+  // nextRetryAt is a Date.now() timestamp
+  | { status: "reconnecting"; attempt: number; maxAttempts: number; nextRetryAt: number; lastClose: CloseInfo | null }
+  // Automatic reconnection gave up
+  | { status: "failed"; attempts: number; lastClose: CloseInfo | null }
+  | { status: "closed-by-user" };
+
+export type ConnectionStatus = ConnectionState["status"];
+
+// Latency stages a transport can measure itself, in ms; null until measured
+export interface TransportLatency {
+  queueMs: number | null;
+  roundTripMs: number | null;
+}
+
+export interface AudioTransport {
+  // Built-in kinds, or any label for custom transports (loopback, replay, ...)
+  readonly kind: TransportKind | string;
+  readonly connected: boolean;
+  readonly state: ConnectionState;
+  // Format of audio frames in both directions; null for track-based transports
+  readonly format: AudioFormat | null;
+  // Whether the last connect picked up the previous server session
+  readonly resumed?: boolean;
+
+  connect(): Promise<void>;
+  disconnect(): void;
+
+  // Audio frames; captureTimeMs is when the first sample was captured, on the
+  // AudioContext clock, and goes into the frame header where there is one
+  sendAudioData(samples: Float32Array, captureTimeMs?: number): void;
+  onAudioFrame(callback: (frame: DecodedAudioFrame) => void): void;
+
+  // Control messages
+  sendControl(message: ClientMessage): boolean;
+  onControl<T extends ServerMessageType>(
+    type: T,
+    listener: (message: ServerMessageOf<T>) => void
+  ): () => void;
+  // Malformed control messages or audio frames, which are dropped
+  onProtocolError(callback: (error: string) => void): void;
+
+  // State events
+  onConnect(callback: () => void): void;
+  onDisconnect(callback: () => void): void;
+  onStateChange(callback: (state: ConnectionState) => void): void;
+  // Skip any pending backoff and try to connect again, also after giving up
+  retryNow(): void;
+
+  // Heartbeat round trips, for transports that measure them
+  onRtt?(callback: (rttMs: number) => void): void;
+
+  // Queueing and round-trip latency, for transports that measure them
+  getLatency?(): TransportLatency;
+
+  // Outbound frames dropped by a queueing policy, for frame-based transports
+  onFrameDrop?(callback: (event: FrameDropEvent) => void): void;
+
+  // Media tracks, for transports that send the microphone track directly
+  setMicrophoneTrack?(track: MediaStreamTrack | null): Promise<void>;
+  onRemoteTrack?(callback: (track: MediaStreamTrack, stream: MediaStream) => void): void;
+}
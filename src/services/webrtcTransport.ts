@@ -0,0 +1,328 @@
+/**
+ * WebRTC audio transport: the microphone goes out as an Opus media track and
+ * the server's audio comes back as a remote track, avoiding TCP head-of-line
+ * blocking. Offer, answer and ICE candidates travel over the control channel
+ * of a WebSocketService.
+ *
+ * By default the offer is sent only after ICE gathering completes, with all
+ * candidates in the SDP. That is what aiortc-style servers expect, since they
+ * do not handle trickled candidates; set `trickleIce` for servers that do.
+ * LoopbackSignaling stands in for such a server inside the page.
+ */
+
+import { rtcConfig } from "@/utils/audioUtils";
+import type { AudioTransport, ConnectionState } from "@/services/transport";
+import type { DecodedAudioFrame } from "@/services/audioDecoder";
+import type {
+  ClientMessage,
+  ServerMessageOf,
+  ServerMessageType,
+} from "@/services/controlProtocol";
+
+// Control channel the transport negotiates over; a WebSocketService in production
+export interface SignalingChannel {
+  readonly connected: boolean;
+  connect(): Promise<void>;
+  disconnect(): void;
+  sendControl(message: ClientMessage): boolean;
+  onControl<T extends ServerMessageType>(
+    type: T,
+    listener: (message: ServerMessageOf<T>) => void
+  ): () => void;
+  onProtocolError(callback: (error: string) => void): void;
+  onRtt(callback: (rttMs: number) => void): void;
+}
+
+export interface WebRTCTransportOptions {
+  rtcConfig?: RTCConfiguration;
+  trickleIce?: boolean;
+  // Upper bound for the Opus sender bitrate
+  maxBitrate?: number;
+  iceGatheringTimeoutMs?: number;
+  connectTimeoutMs?: number;
+}
+
+// Resolve once ICE gathering completes. Sends whatever was gathered if a STUN
+// server is slow to answer
+export function waitForIceGathering(peerConnection: RTCPeerConnection, timeoutMs = 2000): Promise<void> {
+  if (peerConnection.iceGatheringState === "complete") {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeout);
+      peerConnection.removeEventListener("icegatheringstatechange", onChange);
+      resolve();
+    };
+    const onChange = () => {
+      if (peerConnection.iceGatheringState === "complete") done();
+    };
+    const timeout = setTimeout(done, timeoutMs);
+    peerConnection.addEventListener("icegatheringstatechange", onChange);
+  });
+}
+
+class WebRTCTransport implements AudioTransport {
+  readonly kind = "webrtc";
+  private peerConnection: RTCPeerConnection | null = null;
+  private transceiver: RTCRtpTransceiver | null = null;
+  private microphoneTrack: MediaStreamTrack | null = null;
+  private isConnected = false;
+  private connectionState: ConnectionState = { status: "idle" };
+  // Connects that failed in a row; retries are manual, so there is no cap
+  private failedAttempts = 0;
+  private onStateChangeCallback: ((state: ConnectionState) => void) | null = null;
+  private unsubscribers: (() => void)[] = [];
+  // Settles a pending waitForConnection() when its peer connection is closed
+  private cancelConnectionWait: (() => void) | null = null;
+  private onConnectCallback: (() => void) | null = null;
+  private onDisconnectCallback: (() => void) | null = null;
+  private onRemoteTrackCallback: ((track: MediaStreamTrack, stream: MediaStream) => void) | null = null;
+
+  constructor(private signaling: SignalingChannel, private options: WebRTCTransportOptions = {}) {}
+
+  async connect(): Promise<void> {
+    this.setState({ status: "connecting", attempt: this.failedAttempts, maxAttempts: 0 });
+    let peerConnection: RTCPeerConnection;
+    try {
+      peerConnection = await this.negotiate();
+    } catch (error) {
+      // Leave "connecting" so the failure shows and retryNow() works again
+      this.closePeerConnection();
+      this.fail();
+      throw error;
+    }
+
+    // Nothing can connect before the answer, so the wait starts after the offer
+    await this.waitForConnection(peerConnection);
+  }
+
+  // Also closes the signaling socket
+  disconnect(): void {
+    this.closePeerConnection();
+    this.signaling.disconnect();
+    this.failedAttempts = 0;
+    this.setState({ status: "closed-by-user" });
+  }
+
+  // Renegotiate from scratch over the existing signaling socket
+  retryNow(): void {
+    if (this.connectionState.status === "connecting") return;
+
+    this.closePeerConnection();
+    this.connect().catch(error => {
+      console.error("WebRTC reconnect failed:", error);
+    });
+  }
+
+  // Swap the outgoing track without renegotiating; null sends silence
+  async setMicrophoneTrack(track: MediaStreamTrack | null): Promise<void> {
+    this.microphoneTrack = track;
+    if (this.transceiver) {
+      await this.transceiver.sender.replaceTrack(track);
+    }
+  }
+
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  get state(): ConnectionState {
+    return this.connectionState;
+  }
+
+  // Audio travels as media tracks, so there is no frame format
+  get format(): null {
+    return null;
+  }
+
+  sendAudioData(_samples: Float32Array): void {}
+
+  onAudioFrame(_callback: (frame: DecodedAudioFrame) => void): void {}
+
+  // Control messages share the signaling socket
+  sendControl(message: ClientMessage): boolean {
+    return this.signaling.sendControl(message);
+  }
+
+  onControl<T extends ServerMessageType>(
+    type: T,
+    listener: (message: ServerMessageOf<T>) => void
+  ): () => void {
+    return this.signaling.onControl(type, listener);
+  }
+
+  onProtocolError(callback: (error: string) => void): void {
+    this.signaling.onProtocolError(callback);
+  }
+
+  onConnect(callback: () => void): void {
+    this.onConnectCallback = callback;
+  }
+
+  onDisconnect(callback: () => void): void {
+    this.onDisconnectCallback = callback;
+  }
+
+  onStateChange(callback: (state: ConnectionState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  // Measured on the signaling socket
+  onRtt(callback: (rttMs: number) => void): void {
+    this.signaling.onRtt(callback);
+  }
+
+  onRemoteTrack(callback: (track: MediaStreamTrack, stream: MediaStream) => void): void {
+    this.onRemoteTrackCallback = callback;
+  }
+
+  // Open signaling if needed, set up a peer connection and send the offer
+  private async negotiate(): Promise<RTCPeerConnection> {
+    if (!this.signaling.connected) {
+      await this.signaling.connect();
+    }
+
+    const peerConnection = new RTCPeerConnection(this.options.rtcConfig ?? rtcConfig);
+    this.peerConnection = peerConnection;
+
+    this.transceiver = peerConnection.addTransceiver("audio", { direction: "sendrecv" });
+    this.preferOpus(this.transceiver);
+    if (this.microphoneTrack) {
+      await this.transceiver.sender.replaceTrack(this.microphoneTrack);
+    }
+
+    peerConnection.ontrack = (event) => {
+      const stream = event.streams[0] ?? new MediaStream([event.track]);
+      if (this.onRemoteTrackCallback) this.onRemoteTrackCallback(event.track, stream);
+    };
+
+    if (this.options.trickleIce) {
+      peerConnection.onicecandidate = (event) => {
+        this.signaling.sendControl({
+          type: "ice_candidate",
+          candidate: event.candidate ? event.candidate.toJSON() : null,
+        });
+      };
+    }
+
+    this.unsubscribers.push(
+      this.signaling.onControl("answer", (message) => {
+        peerConnection.setRemoteDescription({ type: "answer", sdp: message.sdp })
+          .then(() => this.applyBitrate())
+          .catch(error => console.error("Failed to apply WebRTC answer:", error));
+      }),
+      this.signaling.onControl("ice_candidate", (message) => {
+        peerConnection.addIceCandidate(message.candidate ?? undefined)
+          .catch(error => console.error("Failed to add remote ICE candidate:", error));
+      })
+    );
+
+    await peerConnection.setLocalDescription(await peerConnection.createOffer());
+    if (!this.options.trickleIce) {
+      await waitForIceGathering(peerConnection, this.options.iceGatheringTimeoutMs);
+    }
+    this.signaling.sendControl({ type: "offer", sdp: peerConnection.localDescription.sdp });
+    return peerConnection;
+  }
+
+  private waitForConnection(peerConnection: RTCPeerConnection): Promise<void> {
+    const { connectTimeoutMs = 10000 } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.cancelConnectionWait = null;
+        // A retry may already have replaced this peer connection
+        if (this.peerConnection === peerConnection) {
+          this.fail();
+        }
+        reject(new Error("WebRTC connection timed out"));
+      }, connectTimeoutMs);
+      this.cancelConnectionWait = () => {
+        clearTimeout(timeout);
+        this.cancelConnectionWait = null;
+        reject(new Error("WebRTC connection closed"));
+      };
+
+      peerConnection.onconnectionstatechange = () => {
+        const state = peerConnection.connectionState;
+
+        if (state === "connected" && !this.isConnected) {
+          clearTimeout(timeout);
+          this.cancelConnectionWait = null;
+          this.isConnected = true;
+          this.failedAttempts = 0;
+          this.setState({ status: "open" });
+          if (this.onConnectCallback) this.onConnectCallback();
+          resolve();
+        } else if (state === "failed" || state === "closed") {
+          clearTimeout(timeout);
+          this.cancelConnectionWait = null;
+          this.fail();
+          reject(new Error(`WebRTC connection ${state}`));
+          if (this.isConnected) {
+            this.isConnected = false;
+            if (this.onDisconnectCallback) this.onDisconnectCallback();
+          }
+        }
+      };
+    });
+  }
+
+  private closePeerConnection(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.cancelConnectionWait?.();
+
+    if (this.peerConnection) {
+      this.peerConnection.onconnectionstatechange = null;
+      this.peerConnection.close();
+      this.peerConnection = null;
+      this.transceiver = null;
+    }
+
+    if (this.isConnected) {
+      this.isConnected = false;
+      if (this.onDisconnectCallback) this.onDisconnectCallback();
+    }
+  }
+
+  private fail(): void {
+    this.failedAttempts++;
+    this.setState({ status: "failed", attempts: this.failedAttempts, lastClose: null });
+  }
+
+  private setState(state: ConnectionState): void {
+    this.connectionState = state;
+    if (this.onStateChangeCallback) this.onStateChangeCallback(state);
+  }
+
+  private preferOpus(transceiver: RTCRtpTransceiver): void {
+    const capabilities = typeof RTCRtpReceiver.getCapabilities === "function"
+      ? RTCRtpReceiver.getCapabilities("audio")
+      : null;
+    if (!capabilities || typeof transceiver.setCodecPreferences !== "function") return;
+
+    const isOpus = (codec: RTCRtpCodec) => codec.mimeType.toLowerCase() === "audio/opus";
+    transceiver.setCodecPreferences([
+      ...capabilities.codecs.filter(isOpus),
+      ...capabilities.codecs.filter(codec => !isOpus(codec)),
+    ]);
+  }
+
+  private async applyBitrate(): Promise<void> {
+    const { maxBitrate } = this.options;
+    if (!maxBitrate || !this.transceiver) return;
+
+    const sender = this.transceiver.sender;
+    const parameters = sender.getParameters();
+    if (!parameters.encodings || parameters.encodings.length === 0) return;
+    parameters.encodings.forEach(encoding => {
+      encoding.maxBitrate = maxBitrate;
+    });
+    await sender.setParameters(parameters);
+  }
+}
+
+export default WebRTCTransport;
@@ -3,19 +3,176 @@
  * WebSocket service for audio streaming
  */
 
-class WebSocketService {
+import {
+  isFormatSupported,
+  parseServerMessage,
+  serializeClientMessage,
+  type AudioCapabilities,
+  type AudioFormat,
+  type AudioEncoding,
+  type ClientMessage,
+  type ServerMessageOf,
+  type SessionResume,
+  type ServerMessageType,
+} from "@/services/controlProtocol";
+import { ControlListeners } from "@/services/controlListeners";
+import type {
+  AudioTransport,
+  CloseInfo,
+  ConnectionState,
+  TransportLatency,
+} from "@/services/transport";
+import { LatencyTracker } from "@/services/latencyTracker";
+import {
+  createAudioEncoder,
+  type AudioFrameEncoder,
+  type EncodedAudioFrame,
+} from "@/services/audioEncoder";
+import {
+  readAudioFrame,
+  writeAudioFrame,
+  FRAME_FLAG_FIRST,
+  FRAME_FLAG_REPLAY,
+  echoTimestamp,
+} from "@/services/audioFrame";
+import {
+  OutboundQueue,
+  type FrameDropEvent,
+  type OutboundQueueStats,
+} from "@/services/outboundQueue";
+import {
+  createAudioDecoder,
+  type AudioFrameDecoder,
+  type DecodedAudioFrame,
+} from "@/services/audioDecoder";
+
+export interface WebSocketServiceOptions {
+  // Formats advertised in the opening handshake; omit to skip negotiation
+  capabilities?: AudioCapabilities;
+  // Used when the server does not answer the handshake in time
+  fallbackFormat?: AudioFormat;
+  handshakeTimeoutMs?: number;
+  // Target bitrate when Opus is negotiated
+  opusBitrate?: number;
+  maxReconnectAttempts?: number;
+  // Outbound frames older than this are dropped instead of sent late
+  latencyBudgetMs?: number;
+  // Most audio the outbound queue may hold
+  maxQueuedMs?: number;
+  // Keep audio captured during a reconnect this long; 0 drops it
+  reconnectHoldMs?: number;
+  // Stop handing frames to the socket while it has this much unsent data
+  maxBufferedBytes?: number;
+  // Ping period over the control channel; 0 turns the heartbeat off
+  heartbeatIntervalMs?: number;
+  // Reconnect when no pong has arrived for this long
+  heartbeatTimeoutMs?: number;
+  // Sent frames kept for replay until the server acknowledges them
+  maxReplayFrames?: number;
+}
+
+export interface OutboundStats extends OutboundQueueStats {
+  bufferedAmount: number;
+}
+
+// Sequence tracking for audio frames from the server
+export interface InboundStats {
+  received: number;
+  // Frames skipped over by a later sequence number
+  lost: number;
+  // Frames that arrived after a later one
+  reordered: number;
+  malformed: number;
+}
+
+// WebSocket has no drain event, so a backed-up socket is polled
+const FLUSH_POLL_MS = 10;
+
+// Unanswered pings remembered for RTT measurement
+const MAX_PENDING_PINGS = 8;
+
+interface SentFrame {
+  seq: number;
+  packet: ArrayBuffer;
+}
+
+class WebSocketService implements AudioTransport {
+  readonly kind = "websocket";
   private socket: WebSocket | null = null;
   private isConnected = false;
   private onMessageCallback: ((data: ArrayBuffer) => void) | null = null;
+  private onAudioFrameCallback: ((frame: DecodedAudioFrame) => void) | null = null;
   private onConnectCallback: (() => void) | null = null;
   private onDisconnectCallback: (() => void) | null = null;
+  private onProtocolErrorCallback: ((error: string) => void) | null = null;
+  private onStateChangeCallback: ((state: ConnectionState) => void) | null = null;
+  private onRttCallback: ((rttMs: number) => void) | null = null;
+  private controlListeners = new ControlListeners();
+  private connectionState: ConnectionState = { status: 'idle' };
+  private lastClose: CloseInfo | null = null;
+  private closedByUser = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
+  private maxReconnectAttempts: number;
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private handshakeTimeout: NodeJS.Timeout | null = null;
+  private completeHandshake: ((format: AudioFormat | null, accept?: ServerMessageOf<'accept'>) => void) | null = null;
+  private audioFormat: AudioFormat | null = null;
+  private encoder: AudioFrameEncoder | null = null;
+  private decoder: AudioFrameDecoder | null = null;
+  private outbound: OutboundQueue;
+  private flushTimeout: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private pingId = 0;
+  private pendingPings = new Map<number, number>();
+  private lastPongAt: number | null = null;
+  private rttMs: number | null = null;
+  // Set when the handshake timed out, meaning the server ignores control messages
+  private legacyServer = false;
+  // Session to resume after a reconnect; frames are numbered implicitly in send order
+  private session: { sessionId: string; resumeToken: string } | null = null;
+  // Session named in the hello of the current handshake
+  private offeredSession: { sessionId: string; resumeToken: string } | null = null;
+  private resumedSession = false;
+  private nextSeq = 0;
+  private lastAckedSeq = -1;
+  private unackedFrames: SentFrame[] = [];
+  // Audio frames carry the binary header only when the server speaks the protocol
+  private framedAudio = false;
+  private expectedInboundSeq: number | null = null;
+  private inboundStats: InboundStats = { received: 0, lost: 0, reordered: 0, malformed: 0 };
+  private latency = new LatencyTracker();
 
-  constructor(private url: string) {}
+  constructor(private url: string, private options: WebSocketServiceOptions = {}) {
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.outbound = new OutboundQueue({
+      latencyBudgetMs: options.latencyBudgetMs,
+      maxQueuedMs: options.maxQueuedMs,
+      holdMs: options.reconnectHoldMs,
+    });
+  }
 
+  // Replaces any socket still open and any reconnect still pending, so callers
+  // such as a WebRTC retry can call it at any time
   connect(): Promise<void> {
+    this.clearReconnect();
+    if (this.socket) {
+      const wasConnected = this.isConnected;
+      this.closeSocket(1000, 'Replaced by a new connection');
+      this.clearHandshake();
+      this.closeCodecs();
+      this.clearFlush();
+      this.stopHeartbeat();
+      this.isConnected = false;
+      if (wasConnected && this.onDisconnectCallback) this.onDisconnectCallback();
+    }
+    this.closedByUser = false;
+    this.legacyServer = false;
+    this.setState({
+      status: 'connecting',
+      attempt: this.reconnectAttempts,
+      maxAttempts: this.maxReconnectAttempts,
+    });
+
     return new Promise((resolve, reject) => {
       try {
         this.socket = new WebSocket(this.url);
@@ -24,23 +181,36 @@ class WebSocketService {
         
         this.socket.onopen = () => {
           console.log('WebSocket connection established');
-          this.isConnected = true;
-          this.reconnectAttempts = 0;
-          if (this.onConnectCallback) this.onConnectCallback();
-          resolve();
+          
+          // The connection only counts as open once the format is agreed
+          this.completeHandshake = (format, accept) => {
+            this.clearHandshake();
+            this.applyFormat(format, accept);
+            this.restoreSession(accept?.resumed ?? false, accept?.lastSeq);
+            this.isConnected = true;
+            this.reconnectAttempts = 0;
+            this.lastClose = null;
+            this.setState({ status: 'open' });
+            if (this.onConnectCallback) this.onConnectCallback();
+            this.flushOutbound();
+            if (!this.legacyServer) this.startHeartbeat();
+            resolve();
+          };
+          this.startHandshake();
         };
         
         this.socket.onmessage = (event) => {
-          if (event.data instanceof ArrayBuffer && this.onMessageCallback) {
-            this.onMessageCallback(event.data);
+          if (event.data instanceof ArrayBuffer) {
+            if (this.onMessageCallback) this.onMessageCallback(event.data);
+            this.handleAudioMessage(event.data);
+          } else if (typeof event.data === 'string') {
+            this.handleControlMessage(event.data);
           }
         };
         
-        this.socket.onclose = () => {
-          console.log('WebSocket connection closed');
-          this.isConnected = false;
-          if (this.onDisconnectCallback) this.onDisconnectCallback();
-          this.attemptReconnect();
+        this.socket.onclose = (event) => {
+          console.log('WebSocket connection closed', event.code, event.reason);
+          this.handleClose(event.code, event.reason);
         };
         
         this.socket.onerror = (error) => {
@@ -55,61 +225,545 @@ class WebSocketService {
   }
 
   disconnect(): void {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
-    }
+    this.closedByUser = true;
+    this.clearHandshake();
+    this.closeCodecs();
+    this.clearReconnect();
+    this.clearFlush();
+    this.stopHeartbeat();
+    this.rttMs = null;
+    this.outbound.clear('disconnected');
+    this.resetSession();
     
-    if (this.socket && this.isConnected) {
-      this.socket.close();
-      this.socket = null;
-      this.isConnected = false;
+    this.closeSocket(1000, 'Closed by user');
+    
+    const wasConnected = this.isConnected;
+    this.isConnected = false;
+    this.setState({ status: 'closed-by-user' });
+    if (wasConnected && this.onDisconnectCallback) this.onDisconnectCallback();
+  }
+
+  private handleClose(code: number, reason: string): void {
+    const wasConnected = this.isConnected;
+    this.clearHandshake();
+    this.closeCodecs();
+    this.clearFlush();
+    this.stopHeartbeat();
+    this.isConnected = false;
+    this.lastClose = { code, reason };
+    if (wasConnected && this.onDisconnectCallback) this.onDisconnectCallback();
+    this.attemptReconnect();
+  }
+
+  // Give up on a socket the browser still thinks is open, then reconnect.
+  // Closing a half-open socket can take minutes to report, so don't wait for it
+  private dropConnection(code: number, reason: string): void {
+    if (!this.socket) return;
+
+    this.closeSocket(code, reason);
+    this.handleClose(code, reason);
+  }
+
+  // Detach first so the close does not schedule a reconnect or deliver anything
+  private closeSocket(code: number, reason: string): void {
+    if (!this.socket) return;
+
+    this.socket.onopen = null;
+    this.socket.onclose = null;
+    this.socket.onerror = null;
+    this.socket.onmessage = null;
+    this.socket.close(code, reason);
+    this.socket = null;
+  }
+
+  // Skip the backoff delay, or start over after reconnection gave up
+  retryNow(): void {
+    if (this.isConnected || this.connectionState.status === 'connecting') return;
+
+    this.clearReconnect();
+    if (this.connectionState.status !== 'reconnecting') {
+      this.reconnectAttempts = 0;
     }
+    this.connect().catch(() => {
+      // Error handling is already done in connect()
+    });
   }
 
   private attemptReconnect(): void {
+    if (this.closedByUser) return;
+
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
       const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts - 1), 10000);
       
       console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+      this.setState({
+        status: 'reconnecting',
+        attempt: this.reconnectAttempts,
+        maxAttempts: this.maxReconnectAttempts,
+        nextRetryAt: Date.now() + delay,
+        lastClose: this.lastClose,
+      });
       
       this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
         this.connect().catch(() => {
           // Error handling is already done in connect()
         });
       }, delay);
+      return;
     }
+
+    console.warn(`Giving up after ${this.reconnectAttempts} reconnect attempts`);
+    this.outbound.clear('disconnected');
+    this.setState({
+      status: 'failed',
+      attempts: this.reconnectAttempts,
+      lastClose: this.lastClose,
+    });
   }
 
-  sendAudioData(audioData: Float32Array): void {
-    if (this.socket && this.isConnected) {
-      // Convert Float32Array to Int16Array (16-bit PCM format)
-      const int16Data = new Int16Array(audioData.length);
-      
-      // Convert Float32 (-1.0 to 1.0) to Int16 (-32768 to 32767)
-      for (let i = 0; i < audioData.length; i++) {
-        // Scale to int16 range and clamp to avoid overflow
-        const sample = Math.max(-1, Math.min(1, audioData[i]));
-        int16Data[i] = Math.floor(sample * 32767);
+  private clearReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  private startHeartbeat(): void {
+    const { heartbeatIntervalMs = 5000 } = this.options;
+    this.stopHeartbeat();
+    if (heartbeatIntervalMs <= 0) return;
+
+    this.heartbeatInterval = setInterval(() => this.sendPing(), heartbeatIntervalMs);
+    this.sendPing();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    this.pendingPings.clear();
+    this.lastPongAt = null;
+  }
+
+  private sendPing(): void {
+    const { heartbeatTimeoutMs = 15000 } = this.options;
+    const now = performance.now();
+
+    // Only servers that have answered a ping are held to the timeout
+    if (this.lastPongAt !== null && now - this.lastPongAt > heartbeatTimeoutMs) {
+      console.warn(`No pong for ${Math.round(now - this.lastPongAt)}ms, reconnecting`);
+      this.dropConnection(4000, 'Heartbeat timeout');
+      return;
+    }
+
+    const id = ++this.pingId;
+    this.pendingPings.set(id, now);
+    if (this.pendingPings.size > MAX_PENDING_PINGS) {
+      this.pendingPings.delete(this.pendingPings.keys().next().value);
+    }
+    this.sendControl({ type: 'ping', id });
+  }
+
+  private handlePong(id: number): void {
+    const sentAt = this.pendingPings.get(id);
+    if (sentAt === undefined) return;
+
+    const now = performance.now();
+    this.pendingPings.delete(id);
+    this.lastPongAt = now;
+    this.rttMs = now - sentAt;
+    if (this.onRttCallback) this.onRttCallback(this.rttMs);
+  }
+
+  // Number and send one encoded frame, keeping it until the server acknowledges it.
+  // Frames encoded after the socket dropped are kept too and go out on resume
+  private sendPacket(frame: EncodedAudioFrame, encoding: AudioEncoding): void {
+    const { maxReplayFrames = 250 } = this.options;
+    const seq = this.nextSeq++;
+
+    let packet: ArrayBuffer;
+    if (this.framedAudio && this.audioFormat) {
+      packet = writeAudioFrame({
+        flags: frame.first ? FRAME_FLAG_FIRST : 0,
+        encoding,
+        channels: this.audioFormat.channels,
+        seq,
+        sampleRate: this.audioFormat.sampleRate,
+        timestampMs: frame.timestampMs,
+        frames: frame.frames,
+      }, frame.payload);
+    } else {
+      // Servers without the protocol get the bare payload
+      packet = frame.payload.slice().buffer;
+    }
+
+    // Only servers that hand out resume tokens ever acknowledge frames
+    if (this.session) {
+      this.unackedFrames.push({ seq, packet });
+      if (this.unackedFrames.length > maxReplayFrames) {
+        this.unackedFrames.shift();
       }
-      
-      console.log('Sending 16-bit PCM audio data, first few samples:', 
-                  int16Data.slice(0, 5), 
-                  'length:', int16Data.length);
-      
-      this.socket.send(int16Data.buffer);
     }
+
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      if (this.framedAudio) this.latency.markSent(echoTimestamp(frame.timestampMs));
+      this.socket.send(packet);
+    }
+  }
+
+  private acknowledge(seq: number): void {
+    if (seq <= this.lastAckedSeq) return;
+
+    this.lastAckedSeq = seq;
+    while (this.unackedFrames.length > 0 && this.unackedFrames[0].seq <= seq) {
+      this.unackedFrames.shift();
+    }
+  }
+
+  // Replay what the resumed session is missing, or start numbering afresh
+  private restoreSession(resumed: boolean, lastSeq?: number): void {
+    const offered = this.offeredSession;
+    this.offeredSession = null;
+    if (!resumed || !offered) {
+      if (offered) console.log('Server started a new session instead of resuming');
+      // A session announced ahead of the accept already belongs to this connection
+      const announced = this.session !== offered ? this.session : null;
+      this.resetSession();
+      this.session = announced;
+      return;
+    }
+
+    this.resumedSession = true;
+    this.acknowledge(lastSeq ?? this.lastAckedSeq);
+
+    const firstSeq = this.unackedFrames.length > 0 ? this.unackedFrames[0].seq : this.nextSeq;
+    if (firstSeq > this.lastAckedSeq + 1) {
+      console.warn(`Replay buffer lost frames ${this.lastAckedSeq + 1}-${firstSeq - 1}`);
+    }
+    console.log(`Resumed session ${offered.sessionId}, replaying ${this.unackedFrames.length} frames`);
+    this.unackedFrames.forEach(({ packet }) => {
+      if (this.framedAudio) {
+        const header = new Uint8Array(packet, 0, 2);
+        header[1] |= FRAME_FLAG_REPLAY;
+      }
+      this.socket?.send(packet);
+    });
+  }
+
+  private resetSession(): void {
+    this.session = null;
+    this.offeredSession = null;
+    this.resumedSession = false;
+    this.nextSeq = 0;
+    this.lastAckedSeq = -1;
+    this.unackedFrames = [];
+    this.expectedInboundSeq = null;
+    this.inboundStats = { received: 0, lost: 0, reordered: 0, malformed: 0 };
+    this.latency.reset();
+  }
+
+  // Strip and check the frame header, track the sequence, then decode
+  private handleAudioMessage(data: ArrayBuffer): void {
+    if (!this.decoder || !this.audioFormat) return;
+
+    if (!this.framedAudio) {
+      this.decoder.decode(new Uint8Array(data));
+      return;
+    }
+
+    const result = readAudioFrame(data);
+    if (result.ok === false) {
+      this.rejectAudioFrame(result.error);
+      return;
+    }
+
+    const { frame } = result;
+    const format = this.audioFormat;
+    if (frame.encoding !== format.encoding || frame.sampleRate !== format.sampleRate || frame.channels !== format.channels) {
+      this.rejectAudioFrame(
+        `Frame is ${frame.encoding} ${frame.sampleRate}Hz x${frame.channels}, negotiated ` +
+        `${format.encoding} ${format.sampleRate}Hz x${format.channels}`
+      );
+      return;
+    }
+
+    this.inboundStats.received++;
+    if (this.expectedInboundSeq !== null) {
+      if (frame.seq > this.expectedInboundSeq) {
+        this.inboundStats.lost += frame.seq - this.expectedInboundSeq;
+      } else if (frame.seq < this.expectedInboundSeq) {
+        // The playback engine drops it if its slot has already played
+        this.inboundStats.reordered++;
+      }
+    }
+    this.expectedInboundSeq = Math.max(this.expectedInboundSeq ?? 0, frame.seq + 1);
+
+    if (frame.echoMs !== undefined) this.latency.markReceived(frame.echoMs);
+    this.decoder.decode(frame.payload, frame.timestampMs);
+  }
+
+  private rejectAudioFrame(error: string): void {
+    this.inboundStats.malformed++;
+    this.reportProtocolError(`Malformed audio frame: ${error}`);
+  }
+
+  private clearFlush(): void {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+  }
+
+  // Hand queued frames to the encoder while the socket keeps up
+  private flushOutbound(): void {
+    const { maxBufferedBytes = 64 * 1024 } = this.options;
+    this.clearFlush();
+
+    while (this.socket && this.isConnected && this.encoder && this.outbound.length > 0) {
+      if (this.socket.bufferedAmount > maxBufferedBytes) {
+        this.flushTimeout = setTimeout(() => this.flushOutbound(), FLUSH_POLL_MS);
+        return;
+      }
+      const frame = this.outbound.shift();
+      if (!frame) break;
+      // Frames held through a reconnect would only skew the estimate
+      if (!frame.held) this.latency.addQueueDelay(performance.now() - frame.enqueuedAt);
+      this.encoder.encode(frame.samples, frame.captureTimeMs);
+    }
+  }
+
+  // Whether frames captured now can still be sent after the socket comes back
+  private isHoldingFrames(): boolean {
+    const state = this.connectionState;
+    const reconnecting = state.status === 'reconnecting' ||
+      (state.status === 'connecting' && state.attempt > 0);
+    return reconnecting && this.outbound.holdMs > 0;
+  }
+
+  private setState(state: ConnectionState): void {
+    this.connectionState = state;
+    if (this.onStateChangeCallback) this.onStateChangeCallback(state);
+  }
+
+  private startHandshake(): void {
+    const { capabilities, handshakeTimeoutMs = 3000 } = this.options;
+    this.offeredSession = capabilities ? this.session : null;
+    if (!capabilities) {
+      this.completeHandshake?.(null);
+      return;
+    }
+
+    const resume: SessionResume | undefined = this.offeredSession
+      ? { ...this.offeredSession, lastAckedSeq: this.lastAckedSeq }
+      : undefined;
+    this.socket?.send(serializeClientMessage({ type: 'hello', capabilities, resume }));
+    this.handshakeTimeout = setTimeout(() => {
+      // Servers that predate the control protocol never answer the hello
+      console.warn('No handshake reply from server, using fallback audio format');
+      this.legacyServer = true;
+      this.completeHandshake?.(this.options.fallbackFormat ?? null);
+    }, handshakeTimeoutMs);
+  }
+
+  // Encoding follows the negotiated format; without one only raw messages are delivered
+  private setupCodecs(): void {
+    this.closeCodecs();
+    const encoder = createAudioEncoder(
+      this.audioFormat,
+      (frame) => this.sendPacket(frame, encoder.encoding),
+      { bitrate: this.options.opusBitrate }
+    );
+    this.encoder = encoder;
+    
+    if (this.audioFormat) {
+      this.decoder = createAudioDecoder(this.audioFormat, (frame) => {
+        if (this.onAudioFrameCallback) this.onAudioFrameCallback(frame);
+      });
+    }
+  }
+
+  private closeCodecs(): void {
+    if (this.encoder) {
+      this.encoder.close();
+      this.encoder = null;
+    }
+    if (this.decoder) {
+      this.decoder.close();
+      this.decoder = null;
+    }
+  }
+
+  private clearHandshake(): void {
+    if (this.handshakeTimeout) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
+    }
+    this.completeHandshake = null;
+  }
+
+  // Switch encoding and framing to an agreed format
+  private applyFormat(format: AudioFormat | null, accept?: ServerMessageOf<'accept'>): void {
+    // Held frames were captured for the previous format
+    const previous = this.audioFormat;
+    if (previous && (!format || format.sampleRate !== previous.sampleRate || format.channels !== previous.channels)) {
+      this.outbound.clear('format_change');
+    }
+    this.audioFormat = format;
+    this.framedAudio = !!accept;
+    this.setupCodecs();
+  }
+
+  // The server committed to a format after the handshake timed out; switch to
+  // it rather than keep talking past each other in the fallback format
+  private applyLateAccept(format: AudioFormat, accept: ServerMessageOf<'accept'>): void {
+    console.warn('Late handshake reply from server, switching to the negotiated format');
+    this.legacyServer = false;
+    this.applyFormat(format, accept);
+    if (accept.resumed) {
+      console.warn('Server resumed a session the client had already given up on');
+    }
+    this.startHeartbeat();
+    // Announced again so listeners pick up the new format
+    if (this.onConnectCallback) this.onConnectCallback();
+  }
+
+  private reportProtocolError(error: string): void {
+    console.warn('Dropping message:', error);
+    if (this.onProtocolErrorCallback) this.onProtocolErrorCallback(error);
+  }
+
+  private handleControlMessage(raw: string): void {
+    const result = parseServerMessage(raw);
+    if (result.ok === false) {
+      this.reportProtocolError(result.error);
+      return;
+    }
+
+    if (result.message.type === 'accept') {
+      const { format } = result.message;
+      // After a handshake timeout the fallback format is already in use
+      const late = !this.completeHandshake && this.legacyServer && this.isConnected;
+      if (!this.completeHandshake && !late) {
+        this.reportProtocolError('Received "accept" outside of a handshake');
+        return;
+      }
+      if (!isFormatSupported(format, this.options.capabilities)) {
+        this.reportProtocolError(`Server picked an unsupported format: ${JSON.stringify(format)}`);
+        this.socket?.close(1002, 'Unsupported audio format');
+        return;
+      }
+      console.log('Negotiated audio format:', format);
+      if (late) {
+        this.applyLateAccept(format, result.message);
+      } else {
+        this.completeHandshake(format, result.message);
+      }
+    } else if (result.message.type === 'session') {
+      const { sessionId, resumeToken } = result.message;
+      this.session = resumeToken ? { sessionId, resumeToken } : null;
+    } else if (result.message.type === 'ack') {
+      this.acknowledge(result.message.seq);
+    } else if (result.message.type === 'pong') {
+      this.handlePong(result.message.id);
+    }
+
+    this.controlListeners.dispatch(result.message);
+  }
+
+  sendControl(message: ClientMessage): boolean {
+    if (!this.socket || !this.isConnected) {
+      return false;
+    }
+    this.socket.send(serializeClientMessage(message));
+    return true;
+  }
+
+  start(metadata?: Record<string, unknown>): boolean {
+    return this.sendControl({ type: 'start', metadata });
+  }
+
+  stop(reason?: string): boolean {
+    return this.sendControl({ type: 'stop', reason });
+  }
+
+  config(settings: Record<string, unknown>): boolean {
+    return this.sendControl({ type: 'config', settings });
+  }
+
+  // The capture time becomes the header timestamp, so it stays monotonic across
+  // reconnects and skips over audio the caller never sent
+  sendAudioData(audioData: Float32Array, captureTimeMs?: number): void {
+    const format = this.audioFormat;
+    // Timed at the fallback rate until a format is agreed, so queue bounds hold
+    const timing = format ?? this.options.fallbackFormat;
+    const durationMs = timing
+      ? audioData.length / timing.channels / timing.sampleRate * 1000
+      : 0;
+
+    if (this.socket && this.isConnected && this.encoder) {
+      this.outbound.push(audioData, durationMs, false, captureTimeMs);
+      this.flushOutbound();
+    } else if (format && this.isHoldingFrames()) {
+      this.outbound.push(audioData, durationMs, true, captureTimeMs);
+    } else {
+      this.outbound.reportDrop('disconnected', 1, durationMs);
+    }
+  }
+
+  getLatency(): TransportLatency {
+    return {
+      queueMs: this.latency.queueMs,
+      roundTripMs: this.latency.roundTripMs,
+    };
+  }
+
+  getInboundStats(): InboundStats {
+    return { ...this.inboundStats };
+  }
+
+  // Queue depth, drop counters and bytes the browser has yet to send
+  getOutboundStats(): OutboundStats {
+    return {
+      ...this.outbound.getStats(),
+      bufferedAmount: this.socket ? this.socket.bufferedAmount : 0,
+    };
   }
 
   get connected(): boolean {
     return this.isConnected;
   }
 
+  get state(): ConnectionState {
+    return this.connectionState;
+  }
+
+  // Whether the current connection picked up the previous server session
+  get resumed(): boolean {
+    return this.resumedSession;
+  }
+
+  // Latest heartbeat round trip, or null before the first pong
+  get rtt(): number | null {
+    return this.rttMs;
+  }
+
+  // Format agreed in the handshake, or null when none was negotiated
+  get format(): AudioFormat | null {
+    return this.audioFormat;
+  }
+
   onMessage(callback: (data: ArrayBuffer) => void): void {
     this.onMessageCallback = callback;
   }
 
+  // Decoded server audio, available once a format has been negotiated
+  onAudioFrame(callback: (frame: DecodedAudioFrame) => void): void {
+    this.onAudioFrameCallback = callback;
+  }
+
   onConnect(callback: () => void): void {
     this.onConnectCallback = callback;
   }
@@ -117,6 +771,31 @@ class WebSocketService {
   onDisconnect(callback: () => void): void {
     this.onDisconnectCallback = callback;
   }
+
+  onProtocolError(callback: (error: string) => void): void {
+    this.onProtocolErrorCallback = callback;
+  }
+
+  onStateChange(callback: (state: ConnectionState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  onRtt(callback: (rttMs: number) => void): void {
+    this.onRttCallback = callback;
+  }
+
+  // Frames dropped by the outbound queue policy
+  onFrameDrop(callback: (event: FrameDropEvent) => void): void {
+    this.outbound.onDrop(callback);
+  }
+
+  // Subscribe to one control message type; returns an unsubscribe function
+  onControl<T extends ServerMessageType>(
+    type: T,
+    listener: (message: ServerMessageOf<T>) => void
+  ): () => void {
+    return this.controlListeners.on(type, listener);
+  }
 }
 
 export default WebSocketService;
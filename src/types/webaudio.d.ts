@@ -0,0 +1,8 @@
+/**
+ * Output device selection on AudioContext, which the DOM lib does not ship
+ * yet. Optional because only some browsers implement it.
+ */
+
+interface AudioContext {
+  setSinkId?(sinkId: string): Promise<void>;
+}
@@ -0,0 +1,111 @@
+/**
+ * Ambient declarations for the WebCodecs audio interfaces, which the DOM lib
+ * does not ship yet. Only the parts our codecs use are declared here.
+ */
+
+type AudioSampleFormat = "u8" | "s16" | "s32" | "f32" | "u8-planar" | "s16-planar" | "s32-planar" | "f32-planar";
+type EncodedAudioChunkType = "key" | "delta";
+type CodecState = "unconfigured" | "configured" | "closed";
+
+interface AudioDataInit {
+  format: AudioSampleFormat;
+  sampleRate: number;
+  numberOfFrames: number;
+  numberOfChannels: number;
+  timestamp: number;
+  data: BufferSource;
+}
+
+interface AudioDataCopyToOptions {
+  planeIndex: number;
+  frameOffset?: number;
+  frameCount?: number;
+  format?: AudioSampleFormat;
+}
+
+declare class AudioData {
+  constructor(init: AudioDataInit);
+  readonly format: AudioSampleFormat | null;
+  readonly sampleRate: number;
+  readonly numberOfFrames: number;
+  readonly numberOfChannels: number;
+  readonly duration: number;
+  readonly timestamp: number;
+  allocationSize(options: AudioDataCopyToOptions): number;
+  copyTo(destination: BufferSource, options: AudioDataCopyToOptions): void;
+  close(): void;
+}
+
+interface EncodedAudioChunkInit {
+  type: EncodedAudioChunkType;
+  timestamp: number;
+  duration?: number;
+  data: BufferSource;
+}
+
+declare class EncodedAudioChunk {
+  constructor(init: EncodedAudioChunkInit);
+  readonly type: EncodedAudioChunkType;
+  readonly timestamp: number;
+  readonly duration: number | null;
+  readonly byteLength: number;
+  copyTo(destination: BufferSource): void;
+}
+
+interface OpusEncoderConfig {
+  format?: "opus" | "ogg";
+  frameDuration?: number;
+  complexity?: number;
+  packetlossperc?: number;
+  useinbandfec?: boolean;
+  usedtx?: boolean;
+}
+
+interface AudioEncoderConfig {
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  bitrate?: number;
+  opus?: OpusEncoderConfig;
+}
+
+interface AudioDecoderConfig {
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  description?: BufferSource;
+}
+
+interface AudioEncoderInit {
+  output: (chunk: EncodedAudioChunk) => void;
+  error: (error: DOMException) => void;
+}
+
+interface AudioDecoderInit {
+  output: (data: AudioData) => void;
+  error: (error: DOMException) => void;
+}
+
+declare class AudioEncoder {
+  constructor(init: AudioEncoderInit);
+  static isConfigSupported(config: AudioEncoderConfig): Promise<{ supported?: boolean; config?: AudioEncoderConfig }>;
+  readonly state: CodecState;
+  readonly encodeQueueSize: number;
+  configure(config: AudioEncoderConfig): void;
+  encode(data: AudioData): void;
+  flush(): Promise<void>;
+  reset(): void;
+  close(): void;
+}
+
+declare class AudioDecoder {
+  constructor(init: AudioDecoderInit);
+  static isConfigSupported(config: AudioDecoderConfig): Promise<{ supported?: boolean; config?: AudioDecoderConfig }>;
+  readonly state: CodecState;
+  readonly decodeQueueSize: number;
+  configure(config: AudioDecoderConfig): void;
+  decode(chunk: EncodedAudioChunk): void;
+  flush(): Promise<void>;
+  reset(): void;
+  close(): void;
+}
@@ -3,6 +3,16 @@
  * Audio and WebRTC utility functions for low-latency audio streaming
  */
 
+import captureProcessorUrl from "@/worklets/captureProcessor.ts?worker&url";
+import echoCancellerProcessorUrl from "@/worklets/echoCancellerProcessor.ts?worker&url";
+import type { AudioCapabilities, AudioEncoding, AudioFormat } from "@/services/controlProtocol";
+import {
+  CAPTURE_PROCESSOR_NAME,
+  ECHO_CANCELLER_PROCESSOR_NAME,
+  type CaptureProcessorOptions,
+  type EchoCancellerProcessorOptions,
+} from "@/worklets/messages";
+
 // Configuration for WebRTC connections
 export const rtcConfig: RTCConfiguration = {
   iceServers: [
@@ -22,27 +32,59 @@ export const defaultAudioConstraints: MediaTrackConstraints = {
   channelCount: 1,         // Mono for simplicity and lower bandwidth
 };
 
-// Creates an analyzer node for visualizing audio levels
+// User-adjustable capture processing; the defaults suit a wired mic
+export interface AudioProcessingSettings {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  channelCount: number;
+  sampleRate: number;
+}
+
+export const defaultAudioProcessing: AudioProcessingSettings = {
+  echoCancellation: defaultAudioConstraints.echoCancellation as boolean,
+  noiseSuppression: defaultAudioConstraints.noiseSuppression as boolean,
+  autoGainControl: defaultAudioConstraints.autoGainControl as boolean,
+  channelCount: defaultAudioConstraints.channelCount as number,
+  sampleRate: defaultAudioConstraints.sampleRate as number,
+};
+
+// Capture constraints for a specific input device; an empty ID means the default
+export function getMicrophoneConstraints(
+  deviceId: string = "",
+  processing: AudioProcessingSettings = defaultAudioProcessing
+): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = { ...defaultAudioConstraints, ...processing };
+  return deviceId ? { ...constraints, deviceId: { exact: deviceId } } : constraints;
+}
+
+// Creates an analyzer node for level meters and visualizers
 export function createAnalyzer(audioContext: AudioContext): AnalyserNode {
   const analyzer = audioContext.createAnalyser();
-  analyzer.fftSize = 256;
+  // About 23 Hz per bin at 48 kHz, fine enough for a log frequency axis
+  analyzer.fftSize = 2048;
   analyzer.smoothingTimeConstant = 0.5;
   return analyzer;
 }
 
-// Get audio level from analyzer node (0-1 range)
-export function getAudioLevel(analyzer: AnalyserNode): number {
-  const dataArray = new Uint8Array(analyzer.frequencyBinCount);
-  analyzer.getByteFrequencyData(dataArray);
-  
-  // Calculate average level
-  let sum = 0;
-  for (let i = 0; i < dataArray.length; i++) {
-    sum += dataArray[i];
+// Convert 16-bit PCM samples to Float32 in the -1.0 to 1.0 range
+export function int16ToFloat32(samples: Int16Array): Float32Array {
+  const floatData = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    floatData[i] = samples[i] / 32768;
   }
-  
-  // Normalize to 0-1 range
-  return sum / (dataArray.length * 255);
+  return floatData;
+}
+
+// Convert Float32 samples (-1.0 to 1.0) to 16-bit PCM (-32768 to 32767)
+export function float32ToInt16(samples: Float32Array): Int16Array {
+  const int16Data = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    // Scale to int16 range and clamp to avoid overflow
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    int16Data[i] = Math.floor(sample * 32767);
+  }
+  return int16Data;
 }
 
 // Connect stream to audio context with analyzer
@@ -56,7 +98,91 @@ export function connectStreamToAnalyzer(
   return { source, analyzer };
 }
 
-// Create an audio processor for WebSocket streaming
+// Default number of samples per captured frame
+export const DEFAULT_CAPTURE_FRAME_SIZE = 1024;
+
+// Frame durations the capture pipeline can be configured for
+export const SUPPORTED_FRAME_DURATIONS_MS = [10, 20, 40, 60];
+
+// Rates the capture pipeline can resample to, besides the context rate
+export const SUPPORTED_SAMPLE_RATES = [48000, 44100, 32000, 24000, 16000, 8000];
+
+// Formats the capture pipeline can produce at the given context rate
+export function getCaptureCapabilities(
+  sampleRate: number,
+  encodings: AudioEncoding[] = ["pcm_s16le", "pcm_f32le"]
+): AudioCapabilities {
+  return {
+    encodings,
+    // Native rate first so servers without a preference avoid resampling
+    sampleRates: [sampleRate, ...SUPPORTED_SAMPLE_RATES.filter(rate => rate !== sampleRate)],
+    channels: [1],
+    frameDurationsMs: SUPPORTED_FRAME_DURATIONS_MS,
+  };
+}
+
+// Number of samples in one frame of the given format
+export function getFrameSize(format: AudioFormat): number {
+  return Math.round(format.sampleRate * format.frameDurationMs / 1000);
+}
+
+// Whether this browser can run AudioWorklet processors
+export function supportsAudioWorklet(audioContext: AudioContext): boolean {
+  return typeof AudioWorkletNode !== "undefined" && !!audioContext.audioWorklet;
+}
+
+// Create an AudioWorklet capture node that posts fixed-size frames on its port
+export async function createCaptureNode(
+  audioContext: AudioContext,
+  source: AudioNode,
+  processorOptions: CaptureProcessorOptions = { frameSize: DEFAULT_CAPTURE_FRAME_SIZE }
+): Promise<AudioWorkletNode> {
+  await audioContext.audioWorklet.addModule(captureProcessorUrl);
+
+  const node = new AudioWorkletNode(audioContext, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: "explicit",
+    processorOptions,
+  });
+
+  source.connect(node);
+  return node;
+}
+
+/**
+ * Create an echo canceller between the microphone and the capture node. The
+ * reference is the playback mix, tapped before it reaches the speakers.
+ * Connect the returned node onward in place of the microphone source.
+ */
+export async function createEchoCancellerNode(
+  audioContext: AudioContext,
+  source: AudioNode,
+  reference: AudioNode,
+  processorOptions: EchoCancellerProcessorOptions = {}
+): Promise<AudioWorkletNode> {
+  await audioContext.audioWorklet.addModule(echoCancellerProcessorUrl);
+
+  const node = new AudioWorkletNode(audioContext, ECHO_CANCELLER_PROCESSOR_NAME, {
+    numberOfInputs: 2,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    channelCount: 1,
+    channelCountMode: "explicit",
+    processorOptions,
+  });
+
+  source.connect(node, 0, 0);
+  reference.connect(node, 0, 1);
+  return node;
+}
+
+/**
+ * Create an audio processor for WebSocket streaming
+ * @deprecated ScriptProcessorNode runs on the main thread. Only used as a
+ * fallback where AudioWorklet is unavailable; prefer createCaptureNode.
+ */
 export function createAudioProcessor(
   audioContext: AudioContext,
   stream: MediaStream
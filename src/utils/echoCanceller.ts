@@ -0,0 +1,206 @@
+/**
+ * Adaptive echo canceller for the capture path
+ *
+ * Learns the path from the played-back signal (the reference) to the
+ * microphone with a partitioned-block frequency-domain NLMS filter, and
+ * subtracts the predicted echo. Runs on 128-sample blocks, the render quantum,
+ * so it fits an AudioWorklet without added latency. Adaptation freezes while
+ * the local talker is louder than the echo could be (Geigel double-talk
+ * detection), so near-end speech does not make the filter diverge.
+ */
+
+import { fft, ifft } from "@/utils/fft";
+
+export interface EchoCancellerOptions {
+  filterLengthMs?: number;   // Longest echo path covered, including device latency
+  stepSize?: number;         // NLMS step size, 0..1; larger adapts faster but noisier
+  doubleTalkRatio?: number;  // Mic peaks above this share of reference peaks mean double talk
+}
+
+export interface EchoStats {
+  // Echo return loss: how much quieter the echo is than the reference, in dB
+  erlDb: number | null;
+  // Echo return loss enhancement: how much the filter removed, in dB
+  erleDb: number | null;
+  doubleTalk: boolean;
+}
+
+export const ECHO_BLOCK_SIZE = 128;
+const FFT_SIZE = ECHO_BLOCK_SIZE * 2;
+// Reference peaks below this (about -70 dBFS) count as no far-end signal
+const SILENCE_THRESHOLD = 3e-4;
+// Smoothing of the per-bin reference power and of the ERL/ERLE powers
+const POWER_SMOOTHING = 0.1;
+const STATS_SMOOTHING = 0.02;
+// Keeps steps small while the reference is quiet (about -40 dBFS), where noise dominates
+const REGULARIZATION = FFT_SIZE * 1e-4;
+// Double talk is held this many blocks past the last detection (about 50 ms)
+const DOUBLE_TALK_HOLD_BLOCKS = 20;
+
+const meanSquare = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return sum / samples.length;
+};
+
+const peak = (samples: Float32Array): number => {
+  let max = 0;
+  for (let i = 0; i < samples.length; i++) max = Math.max(max, Math.abs(samples[i]));
+  return max;
+};
+
+const toDb = (ratio: number): number => 10 * Math.log10(ratio);
+
+export class EchoCanceller {
+  private options: Required<EchoCancellerOptions>;
+  private partitions: number;
+
+  // Filter weights and reference spectra, one per partition; history[head] is newest
+  private weightsRe: Float32Array[];
+  private weightsIm: Float32Array[];
+  private historyRe: Float32Array[];
+  private historyIm: Float32Array[];
+  private historyPeaks: Float32Array;
+  private head = 0;
+  private constrainNext = 0;
+
+  // Last two reference blocks, the overlap-save input
+  private referenceWindow = new Float32Array(FFT_SIZE);
+  private binPower = new Float32Array(FFT_SIZE);
+  private re = new Float32Array(FFT_SIZE);
+  private im = new Float32Array(FFT_SIZE);
+
+  private referencePower = 0;
+  private micPower = 0;
+  private errorPower = 0;
+  private measured = false;
+  private doubleTalkHold = 0;
+
+  constructor(sampleRate: number, options: EchoCancellerOptions = {}) {
+    this.options = {
+      filterLengthMs: 80,
+      stepSize: 0.5,
+      doubleTalkRatio: 0.5,
+      ...options,
+    };
+    this.partitions = Math.max(1, Math.ceil(this.options.filterLengthMs / 1000 * sampleRate / ECHO_BLOCK_SIZE));
+    const spectra = () => Array.from({ length: this.partitions }, () => new Float32Array(FFT_SIZE));
+    this.weightsRe = spectra();
+    this.weightsIm = spectra();
+    this.historyRe = spectra();
+    this.historyIm = spectra();
+    this.historyPeaks = new Float32Array(this.partitions);
+  }
+
+  get stats(): EchoStats {
+    return {
+      erlDb: this.measured ? toDb(this.referencePower / (this.micPower + 1e-12)) : null,
+      erleDb: this.measured ? toDb(this.micPower / (this.errorPower + 1e-12)) : null,
+      doubleTalk: this.doubleTalkHold > 0,
+    };
+  }
+
+  // Forget the learned echo path, e.g. after switching output device
+  reset(): void {
+    [...this.weightsRe, ...this.weightsIm, ...this.historyRe, ...this.historyIm].forEach(s => s.fill(0));
+    this.historyPeaks.fill(0);
+    this.referenceWindow.fill(0);
+    this.binPower.fill(0);
+    this.referencePower = this.micPower = this.errorPower = 0;
+    this.measured = false;
+  }
+
+  // Cancel the echo of one block of reference from one block of mic audio
+  process(mic: Float32Array, reference: Float32Array, output: Float32Array): void {
+    const { re, im } = this;
+    const K = this.partitions;
+
+    // Newest reference spectrum over the last two blocks
+    this.referenceWindow.copyWithin(0, ECHO_BLOCK_SIZE);
+    this.referenceWindow.set(reference, ECHO_BLOCK_SIZE);
+    this.head = (this.head + K - 1) % K;
+    const xRe = this.historyRe[this.head];
+    const xIm = this.historyIm[this.head];
+    xRe.set(this.referenceWindow);
+    xIm.fill(0);
+    fft(xRe, xIm);
+    this.historyPeaks[this.head] = peak(reference);
+
+    // Echo estimate: sum of each partition's weights times its delayed reference
+    re.fill(0);
+    im.fill(0);
+    for (let k = 0; k < K; k++) {
+      const wRe = this.weightsRe[k];
+      const wIm = this.weightsIm[k];
+      const hRe = this.historyRe[(this.head + k) % K];
+      const hIm = this.historyIm[(this.head + k) % K];
+      for (let i = 0; i < FFT_SIZE; i++) {
+        re[i] += wRe[i] * hRe[i] - wIm[i] * hIm[i];
+        im[i] += wRe[i] * hIm[i] + wIm[i] * hRe[i];
+      }
+    }
+    ifft(re, im);
+    for (let i = 0; i < ECHO_BLOCK_SIZE; i++) {
+      output[i] = mic[i] - re[ECHO_BLOCK_SIZE + i];
+    }
+
+    // Adapt only while there is something to learn from and no one talks over it
+    const referencePeak = peak(this.historyPeaks);
+    const farEndActive = referencePeak > SILENCE_THRESHOLD;
+    if (farEndActive && peak(mic) > this.options.doubleTalkRatio * referencePeak) {
+      this.doubleTalkHold = DOUBLE_TALK_HOLD_BLOCKS;
+    } else if (this.doubleTalkHold > 0) {
+      this.doubleTalkHold--;
+    }
+    if (!farEndActive || this.doubleTalkHold > 0) return;
+
+    this.updateStats(reference, mic, output);
+
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const power = xRe[i] * xRe[i] + xIm[i] * xIm[i];
+      this.binPower[i] += POWER_SMOOTHING * (power - this.binPower[i]);
+    }
+
+    // Error spectrum, zero-padded in front as overlap-save requires
+    re.fill(0, 0, ECHO_BLOCK_SIZE);
+    re.set(output.subarray(0, ECHO_BLOCK_SIZE), ECHO_BLOCK_SIZE);
+    im.fill(0);
+    fft(re, im);
+
+    const step = this.options.stepSize;
+    for (let k = 0; k < K; k++) {
+      const wRe = this.weightsRe[k];
+      const wIm = this.weightsIm[k];
+      const hRe = this.historyRe[(this.head + k) % K];
+      const hIm = this.historyIm[(this.head + k) % K];
+      for (let i = 0; i < FFT_SIZE; i++) {
+        // Normalized by the reference power spanned by the whole filter
+        const scale = step / (K * this.binPower[i] + REGULARIZATION);
+        wRe[i] += scale * (hRe[i] * re[i] + hIm[i] * im[i]);
+        wIm[i] += scale * (hRe[i] * im[i] - hIm[i] * re[i]);
+      }
+    }
+
+    // Keep one partition per block causal, round robin, instead of all of them
+    this.constrain(this.constrainNext);
+    this.constrainNext = (this.constrainNext + 1) % K;
+  }
+
+  // Zero the second half of a partition's impulse response
+  private constrain(k: number): void {
+    const wRe = this.weightsRe[k];
+    const wIm = this.weightsIm[k];
+    ifft(wRe, wIm);
+    wRe.fill(0, ECHO_BLOCK_SIZE);
+    wIm.fill(0);
+    fft(wRe, wIm);
+  }
+
+  private updateStats(reference: Float32Array, mic: Float32Array, error: Float32Array): void {
+    const smoothing = this.measured ? STATS_SMOOTHING : 1;
+    this.referencePower += smoothing * (meanSquare(reference) - this.referencePower);
+    this.micPower += smoothing * (meanSquare(mic) - this.micPower);
+    this.errorPower += smoothing * (meanSquare(error) - this.errorPower);
+    this.measured = true;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * In-place iterative radix-2 FFT for the analysis and filtering code.
+ * Lengths must be powers of two.
+ */
+
+// Twiddle factors per transform length; worklets run the same sizes every quantum
+const twiddleCache = new Map<number, { cos: Float32Array; sin: Float32Array }>();
+
+const getTwiddles = (n: number) => {
+  let twiddles = twiddleCache.get(n);
+  if (!twiddles) {
+    const cos = new Float32Array(n / 2);
+    const sin = new Float32Array(n / 2);
+    for (let k = 0; k < n / 2; k++) {
+      cos[k] = Math.cos(-2 * Math.PI * k / n);
+      sin[k] = Math.sin(-2 * Math.PI * k / n);
+    }
+    twiddles = { cos, sin };
+    twiddleCache.set(n, twiddles);
+  }
+  return twiddles;
+};
+
+export function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  const { cos, sin } = getTwiddles(n);
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const c = cos[k * step];
+        const s = sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * c - im[b] * s;
+        const tIm = re[b] * s + im[b] * c;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+// Inverse transform, scaled by 1/n
+export function ifft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 0; i < n; i++) im[i] = -im[i];
+  fft(re, im);
+  for (let i = 0; i < n; i++) {
+    re[i] /= n;
+    im[i] = -im[i] / n;
+  }
+}
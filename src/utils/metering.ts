@@ -0,0 +1,129 @@
+/**
+ * Level metering in dBFS from time-domain samples
+ *
+ * Reports true RMS and sample peak. The displayed levels follow rises
+ * immediately and fall at a fixed rate (decay ballistics); the peak is held
+ * for a while before it decays, and clipping stays flagged long enough to see.
+ */
+
+export interface LevelMeterOptions {
+  decayDbPerSecond?: number;   // Fall rate of the displayed RMS and held peak
+  peakHoldMs?: number;         // How long the highest peak stays put
+  clipThreshold?: number;      // Sample magnitude that counts as clipping
+  clipHoldMs?: number;         // How long the clip indicator stays lit
+  quietThresholdDb?: number;   // Peaks below this count as too quiet...
+  quietAfterMs?: number;       // ...once they have stayed there this long
+}
+
+export interface MeterReading {
+  rmsDb: number;
+  peakDb: number;
+  peakHoldDb: number;
+  clipping: boolean;
+  tooQuiet: boolean;
+}
+
+// Levels are clamped here; digital silence reads as this rather than -Infinity
+export const METER_FLOOR_DB = -90;
+
+export const SILENT_READING: MeterReading = {
+  rmsDb: METER_FLOOR_DB,
+  peakDb: METER_FLOOR_DB,
+  peakHoldDb: METER_FLOOR_DB,
+  clipping: false,
+  tooQuiet: false,
+};
+
+// Amplitude (1.0 = full scale) in dBFS
+export function toDbfs(amplitude: number): number {
+  return amplitude > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(amplitude)) : METER_FLOOR_DB;
+}
+
+export function rmsOf(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+export function peakOf(samples: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  return peak;
+}
+
+// Position (0-1) of a dBFS value on a meter spanning rangeDb below full scale
+export function meterPosition(db: number, rangeDb = 60): number {
+  return Math.min(1, Math.max(0, (db + rangeDb) / rangeDb));
+}
+
+export class LevelMeter {
+  private options: Required<LevelMeterOptions>;
+  private displayedRmsDb = METER_FLOOR_DB;
+  private peakHoldDb = METER_FLOOR_DB;
+  private peakHeldAt = 0;
+  private clippedAt: number | null = null;
+  private quietSince: number | null = null;
+  private lastUpdate: number | null = null;
+
+  constructor(options: LevelMeterOptions = {}) {
+    this.options = {
+      decayDbPerSecond: 20,
+      peakHoldMs: 1500,
+      clipThreshold: 0.999,
+      clipHoldMs: 2000,
+      quietThresholdDb: -45,
+      quietAfterMs: 5000,
+      ...options,
+    };
+  }
+
+  // Measure a block of samples; nowMs is a monotonic clock such as performance.now().
+  // Pass expectSignal = false while silence is normal, e.g. push-to-talk released
+  update(samples: Float32Array, nowMs: number, expectSignal = true): MeterReading {
+    const { decayDbPerSecond, peakHoldMs, clipThreshold, clipHoldMs, quietThresholdDb, quietAfterMs } = this.options;
+    const elapsed = this.lastUpdate !== null ? (nowMs - this.lastUpdate) / 1000 : 0;
+    this.lastUpdate = nowMs;
+    const decay = decayDbPerSecond * elapsed;
+
+    const peak = peakOf(samples);
+    const rmsDb = toDbfs(rmsOf(samples));
+    const peakDb = toDbfs(peak);
+
+    this.displayedRmsDb = Math.max(rmsDb, this.displayedRmsDb - decay);
+
+    if (peakDb >= this.peakHoldDb) {
+      this.peakHoldDb = peakDb;
+      this.peakHeldAt = nowMs;
+    } else if (nowMs - this.peakHeldAt > peakHoldMs) {
+      this.peakHoldDb = Math.max(peakDb, this.peakHoldDb - decay);
+    }
+
+    if (peak >= clipThreshold) {
+      this.clippedAt = nowMs;
+    }
+
+    // Speech peaks well above the noise of a quiet room; pauses between words
+    // are far shorter than quietAfterMs
+    if (!expectSignal || peakDb >= quietThresholdDb) {
+      this.quietSince = null;
+    } else if (this.quietSince === null) {
+      this.quietSince = nowMs;
+    }
+
+    return {
+      rmsDb: this.displayedRmsDb,
+      peakDb,
+      peakHoldDb: this.peakHoldDb,
+      clipping: this.clippedAt !== null && nowMs - this.clippedAt < clipHoldMs,
+      tooQuiet: this.quietSince !== null && nowMs - this.quietSince >= quietAfterMs,
+    };
+  }
+
+  reset(): void {
+    this.displayedRmsDb = METER_FLOOR_DB;
+    this.peakHoldDb = METER_FLOOR_DB;
+    this.clippedAt = null;
+    this.quietSince = null;
+    this.lastUpdate = null;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Streaming windowed-sinc resampler for arbitrary rate ratios
+ *
+ * Uses a polyphase table of Kaiser-windowed sinc filters with linear
+ * interpolation between phases. Input history and the fractional read
+ * position carry over between calls, so frame boundaries are seamless.
+ * Buffers are reused across calls so the audio thread does not allocate.
+ */
+
+export interface ResamplerOptions {
+  channels?: number;      // Interleaved channel count
+  zeroCrossings?: number; // Filter half-width in zero crossings; higher is sharper
+  phases?: number;        // Polyphase table resolution
+}
+
+// Kaiser window shape; ~80 dB stopband
+const KAISER_BETA = 8;
+// Leave a little headroom below Nyquist for the transition band
+const CUTOFF_MARGIN = 0.95;
+
+// Zeroth-order modified Bessel function of the first kind
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 32; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+export class Resampler {
+  readonly inputRate: number;
+  readonly outputRate: number;
+  private channels: number;
+  private step: number;
+  private halfLength: number;
+  private taps: number;
+  private phases: number;
+  private table: Float32Array;
+  // Input history followed by the block being processed
+  private work: Float32Array;
+  private historyLength: number;
+  private output = new Float32Array(0);
+  private time: number;
+
+  constructor(inputRate: number, outputRate: number, options: ResamplerOptions = {}) {
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+    this.channels = options.channels ?? 1;
+    this.phases = options.phases ?? 256;
+    this.step = inputRate / outputRate;
+
+    // When downsampling the cutoff moves down to the output Nyquist
+    const cutoff = Math.min(1, outputRate / inputRate) * CUTOFF_MARGIN;
+    const zeroCrossings = options.zeroCrossings ?? 16;
+    this.halfLength = Math.ceil(zeroCrossings / cutoff);
+    this.taps = this.halfLength * 2;
+    this.table = this.buildTable(cutoff);
+
+    this.work = new Float32Array(this.taps * this.channels * 2);
+    this.reset();
+  }
+
+  // Whether this resampler actually changes the rate
+  get isPassthrough(): boolean {
+    return this.inputRate === this.outputRate;
+  }
+
+  // Forget buffered input, e.g. after a discontinuity in the stream
+  reset(): void {
+    this.historyLength = this.taps * this.channels;
+    this.work.fill(0, 0, this.historyLength);
+    this.time = this.halfLength - 1;
+  }
+
+  // Resample a block of interleaved samples; output length varies per call.
+  // The result is overwritten by the next call, so copy it to keep it
+  process(input: Float32Array): Float32Array {
+    if (this.isPassthrough) return input;
+
+    const channels = this.channels;
+    const workLength = this.historyLength + input.length;
+    // Only grows when blocks get longer than any seen before
+    if (this.work.length < workLength) {
+      const grown = new Float32Array(workLength);
+      grown.set(this.work.subarray(0, this.historyLength));
+      this.work = grown;
+    }
+    const work = this.work;
+    work.set(input, this.historyLength);
+    const workFrames = workLength / channels;
+
+    const maxOutput = Math.ceil(workFrames / this.step) + 1;
+    if (this.output.length < maxOutput * channels) {
+      this.output = new Float32Array(maxOutput * channels);
+    }
+    const output = this.output;
+    let written = 0;
+
+    let time = this.time;
+    while (Math.floor(time) + this.halfLength < workFrames) {
+      const center = Math.floor(time);
+      const fraction = time - center;
+      const phasePosition = fraction * this.phases;
+      const phase = Math.floor(phasePosition);
+      const blend = phasePosition - phase;
+      const rowA = phase * this.taps;
+      const rowB = rowA + this.taps;
+      const first = center - this.halfLength + 1;
+
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let j = 0; j < this.taps; j++) {
+          const coefficient = this.table[rowA + j] + (this.table[rowB + j] - this.table[rowA + j]) * blend;
+          sum += work[(first + j) * channels + c] * coefficient;
+        }
+        output[written * channels + c] = sum;
+      }
+
+      written++;
+      time += this.step;
+    }
+
+    // Keep only the input still needed by upcoming output samples
+    const drop = Math.max(0, Math.min(workFrames, Math.floor(time) - this.halfLength + 1));
+    work.copyWithin(0, drop * channels, workLength);
+    this.historyLength = workLength - drop * channels;
+    this.time = time - drop;
+
+    return output.subarray(0, written * channels);
+  }
+
+  // Row p holds the filter for a read position p / phases past the centre tap
+  private buildTable(cutoff: number): Float32Array {
+    const table = new Float32Array((this.phases + 1) * this.taps);
+    const windowNorm = besselI0(KAISER_BETA);
+
+    for (let p = 0; p <= this.phases; p++) {
+      const fraction = p / this.phases;
+      for (let j = 0; j < this.taps; j++) {
+        const distance = fraction + this.halfLength - 1 - j;
+        const x = cutoff * distance;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const ratio = distance / this.halfLength;
+        const window = Math.abs(ratio) >= 1
+          ? 0
+          : besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / windowNorm;
+        table[p * this.taps + j] = cutoff * sinc * window;
+      }
+    }
+
+    return table;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Transcript segments built from server transcript messages, and their export
+ * as plain text, SRT and WebVTT
+ */
+
+import type { ServerMessageOf } from "@/services/controlProtocol";
+
+export interface SegmentTimes {
+  startMs: number;
+  endMs: number;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  text: string;
+  // Interim segments are still being revised by the server
+  final: boolean;
+  // Milliseconds from the start of the session as the server stamped them;
+  // null when the server sends no start time
+  serverTimes: SegmentTimes | null;
+  // When the segment was first and last received, from the first local transcript
+  receivedTimes: SegmentTimes;
+  speaker?: string;
+}
+
+// Which clock a transcript is timed by; the two are never mixed
+export type TranscriptTimeBase = "server" | "received";
+
+export type TranscriptFormat = "txt" | "srt" | "vtt";
+
+// Players skip zero-length cues, which untimed one-shot segments would produce
+const MIN_CUE_MS = 1000;
+
+let nextSegmentId = 0;
+
+/**
+ * Apply a transcript message to the segment list
+ *
+ * A message replaces the segment with the same segmentId. Without IDs, the
+ * trailing interim segment is the one being revised. receivedMs is kept apart
+ * from the server times, for transcripts the server does not time.
+ */
+export function applyTranscriptMessage(
+  segments: TranscriptSegment[],
+  message: ServerMessageOf<"transcript">,
+  receivedMs: number
+): TranscriptSegment[] {
+  const index = message.segmentId !== undefined
+    ? segments.findIndex(segment => segment.id === message.segmentId)
+    : segments.length > 0 && !segments[segments.length - 1].final ? segments.length - 1 : -1;
+  const previous = index >= 0 ? segments[index] : null;
+
+  const serverStartMs = message.startMs ?? previous?.serverTimes?.startMs;
+  const segment: TranscriptSegment = {
+    id: message.segmentId ?? previous?.id ?? `segment-${nextSegmentId++}`,
+    text: message.text,
+    final: message.final,
+    serverTimes: serverStartMs !== undefined
+      ? {
+          startMs: serverStartMs,
+          endMs: Math.max(serverStartMs, message.endMs ?? previous?.serverTimes?.endMs ?? serverStartMs),
+        }
+      : null,
+    receivedTimes: { startMs: previous?.receivedTimes.startMs ?? receivedMs, endMs: receivedMs },
+    speaker: message.speaker ?? previous?.speaker,
+  };
+
+  if (index < 0) return [...segments, segment];
+  return segments.map((existing, i) => (i === index ? segment : existing));
+}
+
+// Server times when every segment has them, receive times otherwise
+export const transcriptTimeBase = (segments: TranscriptSegment[]): TranscriptTimeBase =>
+  segments.every(segment => segment.serverTimes !== null) ? "server" : "received";
+
+export const segmentTimes = (segment: TranscriptSegment, base: TranscriptTimeBase): SegmentTimes =>
+  base === "server" && segment.serverTimes ? segment.serverTimes : segment.receivedTimes;
+
+// 01:02:03,456 for SRT, 01:02:03.456 for VTT
+const formatTimestamp = (ms: number, separator: "," | "."): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+// Short timestamp for display, e.g. 1:05
+export const formatSegmentTime = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const cueTiming = ({ startMs, endMs }: SegmentTimes, separator: "," | "."): string => {
+  const cueEndMs = Math.max(endMs, startMs + MIN_CUE_MS);
+  return `${formatTimestamp(startMs, separator)} --> ${formatTimestamp(cueEndMs, separator)}`;
+};
+
+const withSpeaker = (segment: TranscriptSegment): string =>
+  segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text;
+
+// Cue text is markup in WebVTT, so server text must not open tags or entities
+const escapeVtt = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Render the final segments in one of the export formats
+ */
+export function exportTranscript(segments: TranscriptSegment[], format: TranscriptFormat): string {
+  const finals = segments.filter(segment => segment.final && segment.text.trim() !== "");
+  const base = transcriptTimeBase(finals);
+
+  switch (format) {
+    case "txt":
+      return finals
+        .map(segment => `[${formatSegmentTime(segmentTimes(segment, base).startMs)}] ${withSpeaker(segment)}`)
+        .join("\n") + "\n";
+    case "srt":
+      return finals
+        .map((segment, i) => [
+          String(i + 1),
+          cueTiming(segmentTimes(segment, base), ","),
+          withSpeaker(segment),
+        ].join("\n"))
+        .join("\n\n") + "\n";
+    case "vtt":
+      return "WEBVTT\n\n" + finals
+        .map(segment => [
+          cueTiming(segmentTimes(segment, base), "."),
+          // Voice spans keep the speaker machine-readable
+          segment.speaker
+            ? `<v ${escapeVtt(segment.speaker)}>${escapeVtt(segment.text)}`
+            : escapeVtt(segment.text),
+        ].join("\n"))
+        .join("\n\n") + "\n";
+  }
+}
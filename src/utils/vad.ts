@@ -0,0 +1,185 @@
+/**
+ * Frame-based voice activity detector for the capture path
+ *
+ * A frame counts as voiced when its energy stands out from an adaptive noise
+ * floor, most of that energy sits in the speech band, and the spectrum is
+ * peaky rather than flat like steady noise. Speech starts after minSpeechMs
+ * of voiced frames, and ends once hangoverMs passes without one. The last
+ * preRollMs of audio is kept so word onsets are not clipped.
+ */
+
+import { fft } from "@/utils/fft";
+
+export interface VadOptions {
+  thresholdDb?: number;         // Margin above the noise floor for a voiced frame
+  minEnergyDb?: number;         // Frames quieter than this are never voiced
+  speechBandRatio?: number;     // Minimum share of energy within 250-4000 Hz
+  flatnessThreshold?: number;   // Spectral flatness above this looks like noise
+  minSpeechMs?: number;         // Voiced audio needed before speech starts
+  hangoverMs?: number;          // Silence tolerated before speech ends
+  preRollMs?: number;           // Audio before the onset sent along with it
+}
+
+export interface VadFeatures {
+  energyDb: number;
+  noiseFloorDb: number;
+  speechBandRatio: number;
+  flatness: number;
+  voiced: boolean;
+}
+
+export interface VadResult {
+  speaking: boolean;
+  event: "speech_start" | "speech_end" | null;
+  // Frames to send now, oldest first: pre-roll at an onset, then the current frame
+  frames: Float32Array[];
+  features: VadFeatures;
+}
+
+const SPEECH_BAND_HZ = [250, 4000];
+// Noise floor tracking: follow drops quickly, rises slowly
+const FLOOR_FALL = 0.5;
+const FLOOR_RISE = 0.02;
+const FLOOR_RISE_WHILE_SPEAKING = 0.002;
+
+export class VoiceActivityDetector {
+  private options: Required<VadOptions>;
+  private noiseFloorDb: number | null = null;
+  private speaking = false;
+  private voicedMs = 0;
+  private silentMs = 0;
+  private preRoll: Float32Array[] = [];
+  private preRollMs = 0;
+
+  constructor(private sampleRate: number, options: VadOptions = {}) {
+    this.options = {
+      thresholdDb: 12,
+      minEnergyDb: -60,
+      speechBandRatio: 0.2,
+      flatnessThreshold: 0.3,
+      minSpeechMs: 60,
+      hangoverMs: 300,
+      preRollMs: 200,
+      ...options,
+    };
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  // Current noise floor estimate in dBFS, or null before the first frame
+  get noiseLevelDb(): number | null {
+    return this.noiseFloorDb;
+  }
+
+  process(samples: Float32Array): VadResult {
+    const { minSpeechMs, hangoverMs } = this.options;
+    const durationMs = samples.length / this.sampleRate * 1000;
+    const features = this.analyze(samples);
+
+    let event: VadResult["event"] = null;
+    let frames: Float32Array[] = [];
+
+    if (features.voiced) {
+      this.voicedMs += durationMs;
+      this.silentMs = 0;
+    } else {
+      this.silentMs += durationMs;
+      if (!this.speaking) this.voicedMs = 0;
+    }
+
+    if (!this.speaking && this.voicedMs >= minSpeechMs) {
+      this.speaking = true;
+      event = "speech_start";
+      frames = this.preRoll;
+      this.preRoll = [];
+      this.preRollMs = 0;
+    } else if (this.speaking && this.silentMs >= hangoverMs) {
+      this.speaking = false;
+      this.voicedMs = 0;
+      event = "speech_end";
+    }
+
+    if (this.speaking || event === "speech_end") {
+      frames.push(samples);
+    } else {
+      this.remember(samples, durationMs);
+    }
+
+    return { speaking: this.speaking, event, frames, features };
+  }
+
+  reset(): void {
+    this.noiseFloorDb = null;
+    this.speaking = false;
+    this.voicedMs = 0;
+    this.silentMs = 0;
+    this.preRoll = [];
+    this.preRollMs = 0;
+  }
+
+  private remember(samples: Float32Array, durationMs: number): void {
+    this.preRoll.push(samples);
+    this.preRollMs += durationMs;
+    // Drop the oldest frame while the rest still cover the pre-roll
+    while (this.preRoll.length > 1) {
+      const oldestMs = this.preRoll[0].length / this.sampleRate * 1000;
+      if (this.preRollMs - oldestMs < this.options.preRollMs) break;
+      this.preRoll.shift();
+      this.preRollMs -= oldestMs;
+    }
+  }
+
+  private analyze(samples: Float32Array): VadFeatures {
+    const { thresholdDb, minEnergyDb, speechBandRatio, flatnessThreshold } = this.options;
+
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sumSquares += samples[i] * samples[i];
+    }
+    const energyDb = 10 * Math.log10(sumSquares / samples.length + 1e-12);
+
+    // Hann-windowed power spectrum, zero-padded to a power of two
+    const size = 1 << Math.ceil(Math.log2(samples.length));
+    const re = new Float32Array(size);
+    const im = new Float32Array(size);
+    for (let i = 0; i < samples.length; i++) {
+      const window = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (samples.length - 1));
+      re[i] = samples[i] * window;
+    }
+    fft(re, im);
+
+    const binHz = this.sampleRate / size;
+    const lowBin = Math.ceil(SPEECH_BAND_HZ[0] / binHz);
+    const highBin = Math.min(size / 2, Math.floor(SPEECH_BAND_HZ[1] / binHz));
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    for (let k = 1; k <= size / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k] + 1e-20;
+      total += power;
+      if (k >= lowBin && k <= highBin) {
+        band += power;
+        logSum += Math.log(power);
+      }
+    }
+    const bandBins = highBin - lowBin + 1;
+    const ratio = total > 0 ? band / total : 0;
+    // Geometric over arithmetic mean: 1 for white noise, near 0 for harmonics
+    const flatness = band > 0 ? Math.exp(logSum / bandBins) / (band / bandBins) : 1;
+
+    const floor = this.noiseFloorDb ?? energyDb;
+    const voiced = energyDb > minEnergyDb &&
+      energyDb > floor + thresholdDb &&
+      ratio >= speechBandRatio &&
+      flatness <= flatnessThreshold;
+
+    // Adapt the floor mostly on non-speech frames
+    const rise = this.speaking || voiced ? FLOOR_RISE_WHILE_SPEAKING : FLOOR_RISE;
+    const weight = energyDb < floor ? FLOOR_FALL : rise;
+    this.noiseFloorDb = floor + (energyDb - floor) * weight;
+
+    return { energyDb, noiseFloorDb: floor, speechBandRatio: ratio, flatness, voiced };
+  }
+}
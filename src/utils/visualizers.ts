@@ -0,0 +1,147 @@
+/**
+ * Canvas renderers for the audio visualizer modes. Each draws one animation
+ * frame from an AnalyserNode; scrolling modes shift what is already on the
+ * canvas and only paint the newest column.
+ */
+
+export type VisualizerMode = "levels" | "waveform" | "spectrum" | "spectrogram";
+
+// Lowest frequency on the log axis; below this the bins are too coarse to show
+const MIN_FREQUENCY_HZ = 20;
+// Pixels the scrolling modes advance per frame
+const SCROLL_PX = 2;
+
+// Scratch buffers, shared because only one frame is drawn at a time
+let timeData = new Float32Array(0);
+let frequencyData = new Float32Array(0);
+
+const getTimeData = (analyzer: AnalyserNode): Float32Array => {
+  if (timeData.length !== analyzer.fftSize) timeData = new Float32Array(analyzer.fftSize);
+  analyzer.getFloatTimeDomainData(timeData);
+  return timeData;
+};
+
+const getFrequencyData = (analyzer: AnalyserNode): Float32Array => {
+  if (frequencyData.length !== analyzer.frequencyBinCount) {
+    frequencyData = new Float32Array(analyzer.frequencyBinCount);
+  }
+  analyzer.getFloatFrequencyData(frequencyData);
+  return frequencyData;
+};
+
+// Position (0-1) of a frequency on the log axis
+const logPosition = (frequency: number, nyquist: number): number =>
+  Math.log(frequency / MIN_FREQUENCY_HZ) / Math.log(nyquist / MIN_FREQUENCY_HZ);
+
+// Analyzer bin (fractional) at a log-axis position (0-1)
+const binAt = (position: number, analyzer: AnalyserNode): number => {
+  const nyquist = analyzer.context.sampleRate / 2;
+  const frequency = MIN_FREQUENCY_HZ * Math.pow(nyquist / MIN_FREQUENCY_HZ, position);
+  return frequency / nyquist * analyzer.frequencyBinCount;
+};
+
+// Level (0-1) of a dB value within the analyzer's display range
+const normalizeDb = (db: number, analyzer: AnalyserNode): number =>
+  Math.min(1, Math.max(0, (db - analyzer.minDecibels) / (analyzer.maxDecibels - analyzer.minDecibels)));
+
+// Move the canvas content left to make room for a new column on the right
+const scroll = (context: CanvasRenderingContext2D, width: number, height: number): void => {
+  context.drawImage(context.canvas, -SCROLL_PX, 0);
+  context.clearRect(width - SCROLL_PX, 0, SCROLL_PX, height);
+};
+
+/**
+ * Scrolling waveform: the peak envelope of the audio since the last frame
+ */
+export function drawWaveform(
+  context: CanvasRenderingContext2D,
+  analyzer: AnalyserNode,
+  color: string,
+  elapsedMs: number
+): void {
+  const { width, height } = context.canvas;
+  const samples = getTimeData(analyzer);
+  // Only the newest samples are new since the last frame
+  const count = Math.min(samples.length, Math.max(1, Math.round(elapsedMs / 1000 * analyzer.context.sampleRate)));
+  let min = 0;
+  let max = 0;
+  for (let i = samples.length - count; i < samples.length; i++) {
+    min = Math.min(min, samples[i]);
+    max = Math.max(max, samples[i]);
+  }
+
+  scroll(context, width, height);
+  const middle = height / 2;
+  context.fillStyle = color;
+  context.fillRect(
+    width - SCROLL_PX,
+    middle - max * middle,
+    SCROLL_PX,
+    Math.max(1, (max - min) * middle)
+  );
+}
+
+/**
+ * Real-time spectrum on a log frequency axis
+ */
+export function drawSpectrum(
+  context: CanvasRenderingContext2D,
+  analyzer: AnalyserNode,
+  color: string
+): void {
+  const { width, height } = context.canvas;
+  const spectrum = getFrequencyData(analyzer);
+  const nyquist = analyzer.context.sampleRate / 2;
+
+  context.clearRect(0, 0, width, height);
+
+  // Decade gridlines at 100 Hz, 1 kHz and 10 kHz
+  context.strokeStyle = "rgba(128, 128, 128, 0.25)";
+  context.lineWidth = 1;
+  for (const frequency of [100, 1000, 10000]) {
+    if (frequency >= nyquist) continue;
+    const x = Math.round(logPosition(frequency, nyquist) * width) + 0.5;
+    context.beginPath();
+    context.moveTo(x, 0);
+    context.lineTo(x, height);
+    context.stroke();
+  }
+
+  context.beginPath();
+  context.moveTo(0, height);
+  for (let x = 0; x < width; x++) {
+    const bin = Math.min(spectrum.length - 1, Math.round(binAt(x / width, analyzer)));
+    context.lineTo(x, height - normalizeDb(spectrum[bin], analyzer) * height);
+  }
+  context.lineTo(width, height);
+  context.closePath();
+  context.globalAlpha = 0.35;
+  context.fillStyle = color;
+  context.fill();
+  context.globalAlpha = 1;
+  context.strokeStyle = color;
+  context.stroke();
+}
+
+/**
+ * Scrolling spectrogram: one column per frame, low frequencies at the bottom
+ */
+export function drawSpectrogram(
+  context: CanvasRenderingContext2D,
+  analyzer: AnalyserNode,
+  color: string
+): void {
+  const { width, height } = context.canvas;
+  const spectrum = getFrequencyData(analyzer);
+
+  scroll(context, width, height);
+  context.fillStyle = color;
+  for (let y = 0; y < height; y++) {
+    const bin = Math.min(spectrum.length - 1, Math.round(binAt(1 - y / height, analyzer)));
+    const level = normalizeDb(spectrum[bin], analyzer);
+    if (level === 0) continue;
+    context.globalAlpha = level;
+    context.fillRect(width - SCROLL_PX, y, SCROLL_PX, 1);
+  }
+  context.globalAlpha = 1;
+}
@@ -0,0 +1,58 @@
+/**
+ * WAV (RIFF) encoding for recorded audio
+ */
+
+const WAV_HEADER_BYTES = 44;
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Encode 16-bit channels as an interleaved PCM WAV file. Each channel is a list
+ * of chunks, and all channels must share the same chunk lengths. Samples are
+ * written chunk by chunk, so no full-length copy is ever made
+ */
+export function encodeWav(channels: Int16Array[][], sampleRate: number): Blob {
+  const channelCount = channels.length;
+  const chunks = channelCount > 0 ? channels[0] : [];
+  const frames = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const blockAlign = channelCount * BYTES_PER_SAMPLE;
+  const dataBytes = frames * blockAlign;
+
+  const header = new DataView(new ArrayBuffer(WAV_HEADER_BYTES));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) {
+      header.setUint8(offset + i, tag.charCodeAt(i));
+    }
+  };
+
+  // RIFF container; sizes exclude the 8-byte chunk headers
+  writeTag(0, "RIFF");
+  header.setUint32(4, WAV_HEADER_BYTES - 8 + dataBytes, true);
+  writeTag(8, "WAVE");
+
+  // fmt chunk: integer PCM
+  writeTag(12, "fmt ");
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, channelCount, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * blockAlign, true);
+  header.setUint16(32, blockAlign, true);
+  header.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+
+  writeTag(36, "data");
+  header.setUint32(40, dataBytes, true);
+
+  // Interleave each chunk little-endian; the Blob holds the parts without joining them
+  const parts: ArrayBuffer[] = [header.buffer];
+  chunks.forEach((chunk, index) => {
+    const view = new DataView(new ArrayBuffer(chunk.length * blockAlign));
+    for (let i = 0; i < chunk.length; i++) {
+      for (let c = 0; c < channelCount; c++) {
+        view.setInt16((i * channelCount + c) * BYTES_PER_SAMPLE, channels[c][index][i], true);
+      }
+    }
+    parts.push(view.buffer);
+  });
+
+  return new Blob(parts, { type: "audio/wav" });
+}
@@ -0,0 +1,102 @@
+/**
+ * AudioWorklet processor that batches 128-sample render quanta into
+ * fixed-size capture frames and posts them off the audio thread.
+ */
+
+import { Resampler } from "@/utils/resampler";
+import {
+  CAPTURE_PROCESSOR_NAME,
+  type CaptureControlMessage,
+  type CaptureFrameMessage,
+  type CaptureProcessorOptions,
+} from "./messages";
+
+declare const currentTime: number;
+declare const sampleRate: number;
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private frameSize = 1024;
+  private outputRate = sampleRate;
+  private resampler: Resampler | null = null;
+  private buffer = new Float32Array(0);
+  private mono = new Float32Array(128);
+  private writeIndex = 0;
+  private frameStartTime = 0;
+  private target: MessagePort;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    this.target = this.port;
+    this.configure((options?.processorOptions ?? {}) as Partial<CaptureProcessorOptions>);
+
+    this.port.onmessage = (event: MessageEvent<CaptureControlMessage>) => {
+      const message = event.data;
+      if (message.type === "configure") {
+        this.configure(message);
+      } else if (message.type === "route") {
+        this.target = message.port ?? this.port;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      // Input not connected yet; keep the processor alive
+      return true;
+    }
+
+    // Downmix to mono
+    const quantum = channels[0].length;
+    if (this.mono.length !== quantum) {
+      this.mono = new Float32Array(quantum);
+    }
+    for (let i = 0; i < quantum; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) {
+        sample += channels[c][i];
+      }
+      this.mono[i] = sample / channels.length;
+    }
+
+    const samples = this.resampler ? this.resampler.process(this.mono) : this.mono;
+    for (let i = 0; i < samples.length; i++) {
+      if (this.writeIndex === 0) {
+        this.frameStartTime = currentTime + i / this.outputRate;
+      }
+
+      this.buffer[this.writeIndex++] = samples[i];
+
+      if (this.writeIndex === this.frameSize) {
+        this.flush();
+      }
+    }
+
+    return true;
+  }
+
+  // Drops any partial frame rather than emit one of the wrong size or rate
+  private configure(options: Partial<CaptureProcessorOptions>): void {
+    this.frameSize = Math.max(1, options.frameSize ?? this.frameSize);
+    this.outputRate = options.targetSampleRate ?? sampleRate;
+    this.resampler = this.outputRate !== sampleRate
+      ? new Resampler(sampleRate, this.outputRate)
+      : null;
+    this.buffer = new Float32Array(this.frameSize);
+    this.writeIndex = 0;
+  }
+
+  private flush(): void {
+    const message: CaptureFrameMessage = {
+      type: "frame",
+      samples: this.buffer,
+      captureTime: this.frameStartTime,
+    };
+    // Transfer the buffer to avoid a copy and start a fresh one
+    this.target.postMessage(message, [this.buffer.buffer]);
+    this.buffer = new Float32Array(this.frameSize);
+    this.writeIndex = 0;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, CaptureProcessor);
@@ -0,0 +1,61 @@
+/**
+ * AudioWorklet processor that removes the echo of played-back server audio
+ * from the microphone signal before it is captured.
+ */
+
+import { EchoCanceller, ECHO_BLOCK_SIZE } from "@/utils/echoCanceller";
+import {
+  ECHO_CANCELLER_PROCESSOR_NAME,
+  type EchoCancellerControlMessage,
+  type EchoCancellerProcessorOptions,
+  type EchoStatsMessage,
+} from "./messages";
+
+declare const sampleRate: number;
+
+// Stats are posted about four times a second
+const STATS_INTERVAL_BLOCKS = Math.round(sampleRate / ECHO_BLOCK_SIZE / 4);
+
+class EchoCancellerProcessor extends AudioWorkletProcessor {
+  private canceller: EchoCanceller;
+  private silence = new Float32Array(ECHO_BLOCK_SIZE);
+  private blocks = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    this.canceller = new EchoCanceller(
+      sampleRate,
+      (options?.processorOptions ?? {}) as EchoCancellerProcessorOptions
+    );
+
+    this.port.onmessage = (event: MessageEvent<EchoCancellerControlMessage>) => {
+      if (event.data.type === "reset") {
+        this.canceller.reset();
+      }
+    };
+  }
+
+  // Input 0 is the microphone, input 1 the playback reference; both are mono
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const mic = inputs[0]?.[0];
+    const output = outputs[0]?.[0];
+    if (!mic || !output) {
+      // Microphone not connected yet; keep the processor alive
+      return true;
+    }
+
+    // Nothing playing back is the same as a silent reference
+    const reference = inputs[1]?.[0] ?? this.silence;
+    this.canceller.process(mic, reference, output);
+
+    if (++this.blocks >= STATS_INTERVAL_BLOCKS) {
+      this.blocks = 0;
+      const message: EchoStatsMessage = { type: "stats", ...this.canceller.stats };
+      this.port.postMessage(message);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(ECHO_CANCELLER_PROCESSOR_NAME, EchoCancellerProcessor);
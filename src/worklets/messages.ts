@@ -0,0 +1,69 @@
+/**
+ * Message shapes exchanged between the main thread and our AudioWorklet
+ * processors. Kept in a standalone module so both sides can import the types
+ * without pulling in `registerProcessor` side effects.
+ */
+
+import type { EchoCancellerOptions, EchoStats } from "@/utils/echoCanceller";
+
+export const CAPTURE_PROCESSOR_NAME = "capture-processor";
+
+// Options passed through `processorOptions` when creating the capture node
+export interface CaptureProcessorOptions {
+  // Samples per frame, counted at the output rate
+  frameSize: number;
+  // Resample on the audio thread when set and different from the context rate
+  targetSampleRate?: number;
+}
+
+// A batch of captured mono samples, posted from the audio thread
+export interface CaptureFrameMessage {
+  type: "frame";
+  samples: Float32Array;
+  // AudioContext time (seconds) of the first sample in the frame
+  captureTime: number;
+}
+
+// Messages the main thread can send to the capture processor
+export type CaptureControlMessage =
+  | ({ type: "configure" } & CaptureProcessorOptions)
+  // Redirect frames to another port (e.g. a Worker); null restores the node port
+  | { type: "route"; port: MessagePort | null };
+
+export const RECORDER_PROCESSOR_NAME = "recorder-processor";
+
+// Options passed through `processorOptions` when creating the recorder node
+export interface RecorderProcessorOptions {
+  // Samples per direction in each posted chunk
+  chunkSize: number;
+}
+
+// Both directions over the same stretch of time, at the context rate
+export interface RecorderChunkMessage {
+  type: "chunk";
+  capture: Float32Array;
+  playback: Float32Array;
+}
+
+// Posted once the partial chunk has been sent after a flush request
+export interface RecorderFlushedMessage {
+  type: "flushed";
+}
+
+export type RecorderMessage = RecorderChunkMessage | RecorderFlushedMessage;
+
+// Messages the main thread can send to the recorder processor
+export type RecorderControlMessage = { type: "flush" };
+
+export const ECHO_CANCELLER_PROCESSOR_NAME = "echo-canceller-processor";
+
+// Options passed through `processorOptions` when creating the echo canceller node
+export type EchoCancellerProcessorOptions = EchoCancellerOptions;
+
+// Measured echo levels, posted a few times per second
+export interface EchoStatsMessage extends EchoStats {
+  type: "stats";
+}
+
+// Messages the main thread can send to the echo canceller
+export type EchoCancellerControlMessage = { type: "reset" };
@@ -0,0 +1,74 @@
+/**
+ * AudioWorklet processor that records the capture and playback paths side by
+ * side, so both directions stay sample-aligned in the recording.
+ */
+
+import {
+  RECORDER_PROCESSOR_NAME,
+  type RecorderControlMessage,
+  type RecorderMessage,
+  type RecorderProcessorOptions,
+} from "./messages";
+
+class RecorderProcessor extends AudioWorkletProcessor {
+  private chunkSize = 4096;
+  private capture: Float32Array;
+  private playback: Float32Array;
+  private writeIndex = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const processorOptions = (options?.processorOptions ?? {}) as Partial<RecorderProcessorOptions>;
+    this.chunkSize = Math.max(128, processorOptions.chunkSize ?? this.chunkSize);
+    this.allocate();
+
+    this.port.onmessage = (event: MessageEvent<RecorderControlMessage>) => {
+      if (event.data.type === "flush") {
+        this.flush();
+        this.post({ type: "flushed" });
+      }
+    };
+  }
+
+  // Input 0 is the microphone, input 1 the playback mix; both are mono
+  process(inputs: Float32Array[][]): boolean {
+    const capture = inputs[0]?.[0];
+    const playback = inputs[1]?.[0];
+    // A disconnected input has no channels and records as silence
+    const quantum = capture?.length ?? playback?.length ?? 128;
+
+    for (let i = 0; i < quantum; i++) {
+      this.capture[this.writeIndex] = capture ? capture[i] : 0;
+      this.playback[this.writeIndex] = playback ? playback[i] : 0;
+      this.writeIndex++;
+
+      if (this.writeIndex === this.chunkSize) {
+        this.flush();
+      }
+    }
+
+    return true;
+  }
+
+  private allocate(): void {
+    this.capture = new Float32Array(this.chunkSize);
+    this.playback = new Float32Array(this.chunkSize);
+    this.writeIndex = 0;
+  }
+
+  private flush(): void {
+    if (this.writeIndex === 0) return;
+    // Transfer full buffers to avoid a copy; only a final partial chunk is trimmed
+    const full = this.writeIndex === this.chunkSize;
+    const capture = full ? this.capture : this.capture.slice(0, this.writeIndex);
+    const playback = full ? this.playback : this.playback.slice(0, this.writeIndex);
+    this.post({ type: "chunk", capture, playback }, [capture.buffer, playback.buffer]);
+    this.allocate();
+  }
+
+  private post(message: RecorderMessage, transfer: Transferable[] = []): void {
+    this.port.postMessage(message, transfer);
+  }
+}
+
+registerProcessor(RECORDER_PROCESSOR_NAME, RecorderProcessor);